@@ -3,8 +3,28 @@ import globals from "globals";
 import react from "eslint-plugin-react";
 import reactHooks from "eslint-plugin-react-hooks";
 import reactRefresh from "eslint-plugin-react-refresh";
+import tseslint from "typescript-eslint";
 
-export default [
+const reactConfig = {
+  settings: { react: { version: "18.3" } },
+  plugins: {
+    react,
+    "react-hooks": reactHooks,
+    "react-refresh": reactRefresh,
+  },
+  rules: {
+    ...react.configs.recommended.rules,
+    ...react.configs["jsx-runtime"].rules,
+    ...reactHooks.configs.recommended.rules,
+    "react/jsx-no-target-blank": "off",
+    "react-refresh/only-export-components": [
+      "warn",
+      { allowConstantExport: true },
+    ],
+  },
+};
+
+export default tseslint.config(
   { ignores: ["dist"] },
   {
     files: ["**/*.{js,jsx}"],
@@ -17,22 +37,22 @@ export default [
         sourceType: "module",
       },
     },
-    settings: { react: { version: "18.3" } },
-    plugins: {
-      react,
-      "react-hooks": reactHooks,
-      "react-refresh": reactRefresh,
-    },
+    ...reactConfig,
     rules: {
       ...js.configs.recommended.rules,
-      ...react.configs.recommended.rules,
-      ...react.configs["jsx-runtime"].rules,
-      ...reactHooks.configs.recommended.rules,
-      "react/jsx-no-target-blank": "off",
-      "react-refresh/only-export-components": [
-        "warn",
-        { allowConstantExport: true },
-      ],
+      ...reactConfig.rules,
+    },
+  },
+  {
+    files: ["**/*.{ts,tsx}"],
+    extends: [js.configs.recommended, ...tseslint.configs.recommended],
+    languageOptions: {
+      ecmaVersion: 2020,
+      globals: globals.browser,
+    },
+    ...reactConfig,
+    rules: {
+      ...reactConfig.rules,
     },
   },
-];
+);
@@ -0,0 +1,104 @@
+// Detection of the browser features model inference depends on. WebGPU needs
+// an adapter, not just navigator.gpu; onnxruntime-web only ships SIMD builds of
+// its WASM backend; and multi-threaded WASM needs SharedArrayBuffer, which is
+// only available on cross-origin isolated pages.
+
+export interface RuntimeCapabilities {
+  webgpu: boolean; // An adapter could be created
+  webgpuFeatures: string[]; // e.g. "shader-f16", needed for fp16 weights
+  wasmSimd: boolean;
+  sharedArrayBuffer: boolean;
+  crossOriginIsolated: boolean;
+  wasmThreads: boolean;
+  hardwareConcurrency: number;
+  isIOS: boolean;
+}
+
+// Smallest module that uses a SIMD instruction (i8x16.splat); validates only with SIMD support
+const SIMD_TEST_MODULE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11
+]);
+
+// The parts of the WebGPU API used here; TypeScript's DOM typings don't have it yet
+interface WebGPUAdapter {
+  features: ReadonlySet<string>;
+}
+
+interface WebGPU {
+  requestAdapter(): Promise<WebGPUAdapter | null>;
+}
+
+let detection: Promise<RuntimeCapabilities> | null = null;
+let detected: RuntimeCapabilities | null = null;
+
+/**
+ * iPhone, iPod and iPad, including iPads that report themselves as a Mac
+ */
+export function isIOSDevice(): boolean {
+  if (typeof navigator === "undefined") {
+    return false;
+  }
+  return /iPad|iPhone|iPod/.test(navigator.userAgent)
+    || (navigator.userAgent.includes("Macintosh") && navigator.maxTouchPoints > 1);
+}
+
+function getWebGPU(): WebGPU | undefined {
+  return typeof navigator !== "undefined" ? (navigator as Navigator & { gpu?: WebGPU }).gpu : undefined;
+}
+
+/**
+ * Whether the browser exposes the WebGPU API at all; it may still have no adapter
+ */
+export function hasWebGPUApi(): boolean {
+  return getWebGPU() !== undefined;
+}
+
+async function detectWebGPU(): Promise<Pick<RuntimeCapabilities, "webgpu" | "webgpuFeatures">> {
+  const gpu = getWebGPU();
+  if (!gpu) {
+    return { webgpu: false, webgpuFeatures: [] };
+  }
+
+  try {
+    const adapter = await gpu.requestAdapter();
+    return adapter
+      ? { webgpu: true, webgpuFeatures: [...adapter.features] }
+      : { webgpu: false, webgpuFeatures: [] };
+  } catch {
+    return { webgpu: false, webgpuFeatures: [] };
+  }
+}
+
+function detectWasmSimd(): boolean {
+  try {
+    return typeof WebAssembly !== "undefined" && WebAssembly.validate(SIMD_TEST_MODULE);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect what this browser can run. The result is cached after the first call.
+ */
+export function detectCapabilities(): Promise<RuntimeCapabilities> {
+  detection ??= detectWebGPU().then(webgpu => {
+    const sharedArrayBuffer = typeof SharedArrayBuffer !== "undefined";
+    const isolated = typeof crossOriginIsolated !== "undefined" && crossOriginIsolated;
+    detected = {
+      ...webgpu,
+      wasmSimd: detectWasmSimd(),
+      sharedArrayBuffer,
+      crossOriginIsolated: isolated,
+      wasmThreads: sharedArrayBuffer && isolated,
+      hardwareConcurrency: typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 1 : 1,
+      isIOS: isIOSDevice()
+    };
+    return detected;
+  });
+  return detection;
+}
+
+// The cached result, or null before detectCapabilities has finished
+export function getDetectedCapabilities(): RuntimeCapabilities | null {
+  return detected;
+}
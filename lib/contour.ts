@@ -0,0 +1,291 @@
+// Vector outlines of a mask. Marching squares traces where the mask crosses
+// the threshold, interpolating between pixel centres so edges land between
+// pixels rather than on a staircase. Ramer-Douglas-Peucker then drops points
+// that stay within the tolerance of a straight line. An offset grows the
+// outline away from the subject first, for sticker-style cut lines.
+
+import type { AlphaMask } from "./process";
+
+export interface ContourOptions {
+  threshold?: number; // 0-255; mask values at or above it are inside
+  tolerance?: number; // Pixels a simplified outline may stray from the traced one; 0 keeps every point
+  offset?: number; // Pixels to grow the outline by
+  minArea?: number; // Square pixels; smaller specks and holes are dropped
+}
+
+export interface SvgOutlineOptions extends ContourOptions {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+}
+
+export type Point = [number, number];
+
+const DEFAULT_THRESHOLD = 128;
+const DEFAULT_TOLERANCE = 1;
+const DEFAULT_MIN_AREA = 8;
+
+// Segments per marching squares case, as pairs of cell edges (0 top, 1 right,
+// 2 bottom, 3 left). Corners are weighted 8 top left, 4 top right, 2 bottom
+// right, 1 bottom left. Saddles 5 and 10 are resolved separately.
+const CASE_SEGMENTS: number[][] = [
+  [], [3, 2], [2, 1], [3, 1], [0, 1], [], [0, 2], [0, 3],
+  [0, 3], [0, 2], [], [0, 1], [3, 1], [2, 1], [3, 2], []
+];
+
+/**
+ * Squared Euclidean distance from every pixel to the nearest inside pixel
+ * (Felzenszwalb and Huttenlocher's exact transform)
+ */
+function squaredDistanceToInside(inside: Uint8Array, width: number, height: number): Float32Array {
+  const distance = Float32Array.from(inside, value => (value ? 0 : Infinity));
+  const length = Math.max(width, height);
+  const f = new Float64Array(length);
+  const d = new Float64Array(length);
+  const v = new Int32Array(length);
+  const z = new Float64Array(length + 1);
+
+  const transform = (n: number) => {
+    let k = 0;
+    v[0] = 0;
+    z[0] = -Infinity;
+    z[1] = Infinity;
+    for (let q = 1; q < n; q++) {
+      if (f[q] === Infinity) continue;
+      if (f[v[k]] === Infinity) {
+        v[k] = q;
+        continue;
+      }
+      let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+      while (s <= z[k]) {
+        k--;
+        s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+      }
+      k++;
+      v[k] = q;
+      z[k] = s;
+      z[k + 1] = Infinity;
+    }
+    k = 0;
+    for (let q = 0; q < n; q++) {
+      while (z[k + 1] < q) k++;
+      d[q] = f[v[k]] === Infinity ? Infinity : (q - v[k]) * (q - v[k]) + f[v[k]];
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = distance[y * width + x];
+    transform(height);
+    for (let y = 0; y < height; y++) distance[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) f[x] = distance[row + x];
+    transform(width);
+    for (let x = 0; x < width; x++) distance[row + x] = d[x];
+  }
+  return distance;
+}
+
+// A mask whose threshold crossing lies offset pixels outside the original one, anti-aliased
+function grow({ data, width, height }: AlphaMask, threshold: number, offset: number): AlphaMask {
+  const inside = Uint8Array.from(data, value => (value >= threshold ? 1 : 0));
+  const distance = squaredDistanceToInside(inside, width, height);
+  const grown = Uint8Array.from(distance, squared =>
+    Math.round(Math.max(0, Math.min(1, offset + 0.5 - Math.sqrt(squared))) * 255)
+  );
+  return { data: grown, width, height };
+}
+
+function perpendicularDistance([x, y]: Point, [x1, y1]: Point, [x2, y2]: Point): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(x - x1, y - y1);
+  return Math.abs(dy * x - dx * y + x2 * y1 - y2 * x1) / length;
+}
+
+// Ramer-Douglas-Peucker on an open polyline, iteratively so long outlines can't overflow the stack
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+// A closed loop is split at the point farthest from its start, so both halves have distinct ends
+function simplifyLoop(loop: Point[], tolerance: number): Point[] {
+  if (tolerance <= 0 || loop.length < 4) return loop;
+  const [x0, y0] = loop[0];
+  let split = 0;
+  let maxDistance = 0;
+  loop.forEach(([x, y], i) => {
+    const distance = Math.hypot(x - x0, y - y0);
+    if (distance > maxDistance) {
+      split = i;
+      maxDistance = distance;
+    }
+  });
+  const first = simplifyPolyline(loop.slice(0, split + 1), tolerance);
+  const second = simplifyPolyline([...loop.slice(split), loop[0]], tolerance);
+  return [...first, ...second.slice(1, -1)];
+}
+
+function area(loop: Point[]): number {
+  let sum = 0;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    sum += (loop[j][0] + loop[i][0]) * (loop[j][1] - loop[i][1]);
+  }
+  return Math.abs(sum / 2);
+}
+
+/**
+ * Trace the outlines of a mask as closed loops in pixel coordinates. Holes
+ * come out as loops of their own, so fill them with the even-odd rule.
+ */
+export function traceContours(mask: AlphaMask, options: ContourOptions = {}): Point[][] {
+  const {
+    threshold = DEFAULT_THRESHOLD,
+    tolerance = DEFAULT_TOLERANCE,
+    offset = 0,
+    minArea = DEFAULT_MIN_AREA
+  } = options;
+  const { data, width, height } = offset > 0 ? grow(mask, threshold, offset) : mask;
+  const level = offset > 0 ? DEFAULT_THRESHOLD : threshold;
+
+  // Corners are pixel centres, with a ring of outside corners so every loop closes
+  const gridWidth = width + 2;
+  const gridHeight = height + 2;
+  const value = (x: number, y: number) =>
+    x > 0 && y > 0 && x <= width && y <= height ? data[(y - 1) * width + x - 1] : 0;
+
+  // Edge IDs: 2 * corner index for the edge to the right of a corner, + 1 for the edge below it
+  const edgeId = (x: number, y: number, edge: number): number => {
+    switch (edge) {
+      case 0: return 2 * (y * gridWidth + x);
+      case 1: return 2 * (y * gridWidth + x + 1) + 1;
+      case 2: return 2 * ((y + 1) * gridWidth + x);
+      default: return 2 * (y * gridWidth + x) + 1;
+    }
+  };
+
+  const links = new Map<number, number[]>();
+  const link = (a: number, b: number) => {
+    const fromA = links.get(a);
+    if (fromA) fromA.push(b); else links.set(a, [b]);
+    const fromB = links.get(b);
+    if (fromB) fromB.push(a); else links.set(b, [a]);
+  };
+
+  for (let y = 0; y < gridHeight - 1; y++) {
+    for (let x = 0; x < gridWidth - 1; x++) {
+      const topLeft = value(x, y);
+      const topRight = value(x + 1, y);
+      const bottomRight = value(x + 1, y + 1);
+      const bottomLeft = value(x, y + 1);
+      const index =
+        (topLeft >= level ? 8 : 0) | (topRight >= level ? 4 : 0) |
+        (bottomRight >= level ? 2 : 0) | (bottomLeft >= level ? 1 : 0);
+
+      let segments = CASE_SEGMENTS[index];
+      if (index === 5 || index === 10) {
+        // A saddle: the cell's centre decides whether the inside corners connect
+        const centreInside = (topLeft + topRight + bottomRight + bottomLeft) / 4 >= level;
+        segments = (index === 5) === centreInside ? [0, 3, 2, 1] : [0, 1, 3, 2];
+      }
+      for (let i = 0; i < segments.length; i += 2) {
+        link(edgeId(x, y, segments[i]), edgeId(x, y, segments[i + 1]));
+      }
+    }
+  }
+
+  // Where the mask crosses the level along an edge
+  const crossing = (id: number): Point => {
+    const corner = id >> 1;
+    const x = corner % gridWidth;
+    const y = (corner - x) / gridWidth;
+    const [x2, y2] = id & 1 ? [x, y + 1] : [x + 1, y];
+    const a = value(x, y);
+    const b = value(x2, y2);
+    const t = a === b ? 0.5 : Math.max(0, Math.min(1, (level - a) / (b - a)));
+    // Grid corners sit one ring out, at pixel centres
+    return [x + (x2 - x) * t - 0.5, y + (y2 - y) * t - 0.5];
+  };
+
+  const visited = new Set<number>();
+  const loops: Point[][] = [];
+  for (const start of links.keys()) {
+    if (visited.has(start)) continue;
+
+    const loop: Point[] = [];
+    let previous = -1;
+    let current = start;
+    do {
+      visited.add(current);
+      loop.push(crossing(current));
+      const [a, b] = links.get(current)!;
+      const next = a === previous ? b : a;
+      previous = current;
+      current = next;
+    } while (current !== start && !visited.has(current));
+
+    const simplified = simplifyLoop(loop, tolerance);
+    if (simplified.length >= 3 && area(simplified) >= minArea) {
+      loops.push(simplified);
+    }
+  }
+  return loops;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * SVG path data for the loops, one closed subpath each
+ */
+export function contoursToPathData(loops: Point[][]): string {
+  return loops
+    .map(loop => `M${loop.map(([x, y]) => `${formatNumber(x)} ${formatNumber(y)}`).join("L")}Z`)
+    .join("");
+}
+
+const escapeAttribute = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+/**
+ * An SVG document defining the subject's outline as a <clipPath> with the given ID
+ */
+export function createClipPathSvg(mask: AlphaMask, options: ContourOptions & { id?: string } = {}): string {
+  const { id = "subject", ...contourOptions } = options;
+  const path = contoursToPathData(traceContours(mask, contourOptions));
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${mask.width}" height="${mask.height}" viewBox="0 0 ${mask.width} ${mask.height}">` +
+    `<defs><clipPath id="${escapeAttribute(id)}"><path clip-rule="evenodd" d="${path}"/></clipPath></defs></svg>`;
+}
+
+/**
+ * A standalone SVG of the subject's outline; with an offset, fill and
+ * stroke, a sticker-style cut line
+ */
+export function createOutlineSvg(mask: AlphaMask, options: SvgOutlineOptions = {}): string {
+  const { fill = "none", stroke = "#000000", strokeWidth = 2, ...contourOptions } = options;
+  const path = contoursToPathData(traceContours(mask, contourOptions));
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${mask.width}" height="${mask.height}" viewBox="0 0 ${mask.width} ${mask.height}">` +
+    `<path d="${path}" fill="${escapeAttribute(fill)}" fill-rule="evenodd" stroke="${escapeAttribute(stroke)}" ` +
+    `stroke-width="${strokeWidth}" stroke-linejoin="round"/></svg>`;
+}
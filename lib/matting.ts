@@ -0,0 +1,317 @@
+// Alpha matte refinement guided by the image itself. The model predicts its
+// mask at low resolution, so the mask's edges don't follow the fine structure
+// of the photo. The guided filter snaps the mask's transitions to edges in the
+// picture. Trimap matting re-estimates alpha in a band around the mask's edge
+// from how close each pixel's colour is to the nearby pure foreground and
+// background colours, which recovers the partial transparency of hair, fur
+// and sheer fabric.
+//
+// Foreground colour estimation is the last step: a semi-transparent edge pixel
+// is a mix of foreground and the old background, so once alpha is known the
+// background's share can be taken out again. That removes green-screen fringes
+// and the halo of a white studio sweep.
+
+export type MattingMethod = "guided" | "trimap";
+
+export interface MattingOptions {
+  method: MattingMethod;
+  radius?: number; // Window radius in pixels; for trimap, the half-width of the unknown band
+  epsilon?: number; // Guided filter only: higher smooths more, lower follows edges more tightly
+}
+
+const DEFAULT_RADIUS: Record<MattingMethod, number> = { guided: 8, trimap: 6 };
+const DEFAULT_EPSILON = 1e-4;
+
+// Mask values at or beyond these count as pure foreground or background in the trimap
+const FOREGROUND_LEVEL = 240;
+const BACKGROUND_LEVEL = 15;
+// Colour sampling window, in multiples of the trimap radius
+const SAMPLE_SCALE = 4;
+// Share of a window below which it counts as empty; box filter sums drift by a little
+const MIN_COVERAGE = 1e-6;
+// Squared distance (channels 0-1) below which F and B are too alike to tell apart
+const MIN_COLOR_SEPARATION = 0.01;
+
+/**
+ * Mean over a (2 * radius + 1)² window, clipped at the borders. Writes to out,
+ * which may be src itself.
+ */
+function boxFilter(
+  src: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  out: Float32Array = new Float32Array(src.length)
+): Float32Array {
+  const rows = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x <= Math.min(radius, width - 1); x++) sum += src[row + x];
+    for (let x = 0; x < width; x++) {
+      rows[row + x] = sum / (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1);
+      if (x + radius + 1 < width) sum += src[row + x + radius + 1];
+      if (x - radius >= 0) sum -= src[row + x - radius];
+    }
+  }
+
+  // Vertical pass over whole rows at a time, which keeps memory access sequential
+  const columns = new Float64Array(width);
+  for (let y = 0; y <= Math.min(radius, height - 1); y++) {
+    for (let x = 0; x < width; x++) columns[x] += rows[y * width + x];
+  }
+  for (let y = 0; y < height; y++) {
+    const count = Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1;
+    const row = y * width;
+    for (let x = 0; x < width; x++) out[row + x] = columns[x] / count;
+
+    const entering = (y + radius + 1) * width;
+    const leaving = (y - radius) * width;
+    for (let x = 0; x < width; x++) {
+      if (y + radius + 1 < height) columns[x] += rows[entering + x];
+      if (y - radius >= 0) columns[x] -= rows[leaving + x];
+    }
+  }
+  return out;
+}
+
+function toByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value * 255)));
+}
+
+// He et al.'s guided filter, with the luma of the image as the guide
+function guidedFilter(
+  mask: Uint8Array,
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  radius: number,
+  epsilon: number
+): void {
+  const pixels = mask.length;
+  const guide = new Float32Array(pixels);
+  const meanInput = new Float32Array(pixels);
+  const meanProduct = new Float32Array(pixels);
+  const meanSquare = new Float32Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    const luma = (rgba[4 * i] * 0.299 + rgba[4 * i + 1] * 0.587 + rgba[4 * i + 2] * 0.114) / 255;
+    const input = mask[i] / 255;
+    guide[i] = luma;
+    meanInput[i] = input;
+    meanProduct[i] = luma * input;
+    meanSquare[i] = luma * luma;
+  }
+
+  const meanGuide = boxFilter(guide, width, height, radius);
+  boxFilter(meanInput, width, height, radius, meanInput);
+  boxFilter(meanProduct, width, height, radius, meanProduct);
+  boxFilter(meanSquare, width, height, radius, meanSquare);
+
+  // Per-window linear model alpha = a * luma + b; a and b replace the products
+  const a = meanProduct;
+  const b = meanSquare;
+  for (let i = 0; i < pixels; i++) {
+    const variance = meanSquare[i] - meanGuide[i] * meanGuide[i];
+    const slope = (meanProduct[i] - meanGuide[i] * meanInput[i]) / (variance + epsilon);
+    a[i] = slope;
+    b[i] = meanInput[i] - slope * meanGuide[i];
+  }
+
+  boxFilter(a, width, height, radius, a);
+  boxFilter(b, width, height, radius, b);
+  for (let i = 0; i < pixels; i++) {
+    mask[i] = toByte(a[i] * guide[i] + b[i]);
+  }
+}
+
+// Pixels whose whole window passes the test; eroding the region by radius
+function definiteRegion(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  test: (value: number) => boolean
+): Uint8Array {
+  const coverage = Float32Array.from(mask, value => (test(value) ? 1 : 0));
+  boxFilter(coverage, width, height, radius, coverage);
+  return Uint8Array.from(coverage, share => (share > 0.9999 ? 1 : 0));
+}
+
+// Mean colour of the region's pixels around each pixel; found is 0 where the window has none
+function localMeanColor(
+  rgba: ArrayLike<number>,
+  region: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): { colors: Uint8ClampedArray; found: Uint8Array } {
+  const pixels = region.length;
+  const count = boxFilter(Float32Array.from(region), width, height, radius);
+  const colors = new Uint8ClampedArray(3 * pixels);
+  const sum = new Float32Array(pixels);
+
+  for (let channel = 0; channel < 3; channel++) {
+    for (let i = 0; i < pixels; i++) {
+      sum[i] = region[i] ? rgba[4 * i + channel] : 0;
+    }
+    boxFilter(sum, width, height, radius, sum);
+    for (let i = 0; i < pixels; i++) {
+      if (count[i] > MIN_COVERAGE) colors[3 * i + channel] = sum[i] / count[i];
+    }
+  }
+
+  return { colors, found: Uint8Array.from(count, share => (share > MIN_COVERAGE ? 1 : 0)) };
+}
+
+// Colour-projection matting over a trimap derived from the mask
+function trimapMatting(
+  mask: Uint8Array,
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  radius: number
+): void {
+  const foreground = definiteRegion(mask, width, height, radius, value => value >= FOREGROUND_LEVEL);
+  const background = definiteRegion(mask, width, height, radius, value => value <= BACKGROUND_LEVEL);
+  // Sample colours from well beyond the band, so both sides are in reach of every pixel in it
+  const foregroundColor = localMeanColor(rgba, foreground, width, height, SAMPLE_SCALE * radius);
+  const backgroundColor = localMeanColor(rgba, background, width, height, SAMPLE_SCALE * radius);
+
+  for (let i = 0; i < mask.length; i++) {
+    if (foreground[i]) {
+      mask[i] = 255;
+      continue;
+    }
+    if (background[i]) {
+      mask[i] = 0;
+      continue;
+    }
+    if (!foregroundColor.found[i] || !backgroundColor.found[i]) continue;
+
+    // alpha is where the pixel's colour falls on the line from B to F
+    let projection = 0;
+    let separation = 0;
+    for (let channel = 0; channel < 3; channel++) {
+      const f = foregroundColor.colors[3 * i + channel] / 255;
+      const b = backgroundColor.colors[3 * i + channel] / 255;
+      projection += (rgba[4 * i + channel] / 255 - b) * (f - b);
+      separation += (f - b) * (f - b);
+    }
+    if (separation >= MIN_COLOR_SEPARATION) {
+      mask[i] = toByte(projection / separation);
+    }
+  }
+}
+
+// Blur radii of the coarse and fine pass of foreground estimation
+const FOREGROUND_RADII = [90, 6];
+// Keeps the blurred colour estimates finite where a window has no weight
+const ESTIMATION_EPSILON = 1e-5;
+// Pixels per side of the region each tile writes back
+const FOREGROUND_TILE_SIZE = 1024;
+// How far a pixel's estimate reaches: the fine pass blurs the coarse pass's output
+const FOREGROUND_MARGIN = FOREGROUND_RADII.reduce((sum, radius) => sum + radius, 0);
+
+// Blur fusion over one block of pixels, all of whose estimates are returned as channel-major floats
+function estimateBlock(rgba: ArrayLike<number>, width: number, height: number): Float32Array {
+  const pixels = width * height;
+  const alpha = new Float32Array(pixels);
+  for (let i = 0; i < pixels; i++) alpha[i] = rgba[4 * i + 3] / 255;
+  const blurredAlpha = FOREGROUND_RADII.map(radius => boxFilter(alpha, width, height, radius));
+
+  const estimates = new Float32Array(3 * pixels);
+  const image = new Float32Array(pixels);
+  const background = new Float32Array(pixels);
+  const weighted = new Float32Array(pixels);
+
+  for (let channel = 0; channel < 3; channel++) {
+    const foreground = estimates.subarray(channel * pixels, (channel + 1) * pixels);
+    for (let i = 0; i < pixels; i++) image[i] = rgba[4 * i + channel] / 255;
+    foreground.set(image);
+    background.set(image);
+
+    FOREGROUND_RADII.forEach((radius, pass) => {
+      const meanAlpha = blurredAlpha[pass];
+      for (let i = 0; i < pixels; i++) weighted[i] = foreground[i] * alpha[i];
+      boxFilter(weighted, width, height, radius, weighted);
+      for (let i = 0; i < pixels; i++) foreground[i] = weighted[i] / (meanAlpha[i] + ESTIMATION_EPSILON);
+
+      for (let i = 0; i < pixels; i++) weighted[i] = background[i] * (1 - alpha[i]);
+      boxFilter(weighted, width, height, radius, weighted);
+      for (let i = 0; i < pixels; i++) background[i] = weighted[i] / (1 - meanAlpha[i] + ESTIMATION_EPSILON);
+
+      // Correct the blurred foreground by what the compositing equation leaves over
+      for (let i = 0; i < pixels; i++) {
+        const a = alpha[i];
+        const residual = image[i] - a * foreground[i] - (1 - a) * background[i];
+        foreground[i] = Math.max(0, Math.min(1, foreground[i] + a * residual));
+      }
+    });
+  }
+  return estimates;
+}
+
+/**
+ * Recover the true foreground colour of semi-transparent pixels, in place.
+ * rgba holds the original photo's colours with the final mask as its alpha.
+ * Uses Forte and Pitié's approximate blur fusion estimator. The image is
+ * estimated in tiles with a margin as wide as the blurs reach, which gives
+ * the same result as one pass over the whole image in a fraction of the memory.
+ */
+export function estimateForegroundColors(rgba: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  // Tiles read their margins from the untouched colours, not from neighbours already written back
+  const source = rgba.slice();
+
+  for (let y0 = 0; y0 < height; y0 += FOREGROUND_TILE_SIZE) {
+    for (let x0 = 0; x0 < width; x0 += FOREGROUND_TILE_SIZE) {
+      const left = Math.max(0, x0 - FOREGROUND_MARGIN);
+      const top = Math.max(0, y0 - FOREGROUND_MARGIN);
+      const right = Math.min(width, x0 + FOREGROUND_TILE_SIZE + FOREGROUND_MARGIN);
+      const bottom = Math.min(height, y0 + FOREGROUND_TILE_SIZE + FOREGROUND_MARGIN);
+      const blockWidth = right - left;
+      const blockHeight = bottom - top;
+
+      const block = new Uint8ClampedArray(4 * blockWidth * blockHeight);
+      for (let y = 0; y < blockHeight; y++) {
+        const from = 4 * ((top + y) * width + left);
+        block.set(source.subarray(from, from + 4 * blockWidth), 4 * y * blockWidth);
+      }
+      const estimates = estimateBlock(block, blockWidth, blockHeight);
+      const blockPixels = blockWidth * blockHeight;
+
+      const tileRight = Math.min(width, x0 + FOREGROUND_TILE_SIZE);
+      const tileBottom = Math.min(height, y0 + FOREGROUND_TILE_SIZE);
+      for (let y = y0; y < tileBottom; y++) {
+        for (let x = x0; x < tileRight; x++) {
+          const index = 4 * (y * width + x);
+          const a = rgba[index + 3];
+          if (a === 0 || a === 255) continue;
+          const blockIndex = (y - top) * blockWidth + x - left;
+          for (let channel = 0; channel < 3; channel++) {
+            rgba[index + channel] = estimates[channel * blockPixels + blockIndex] * 255;
+          }
+        }
+      }
+    }
+  }
+  return rgba;
+}
+
+/**
+ * Refine an alpha mask in place, using the image's RGBA pixels as guidance,
+ * and return it
+ */
+export function refineAlphaMatte(
+  mask: Uint8Array,
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  { method, radius = DEFAULT_RADIUS[method], epsilon = DEFAULT_EPSILON }: MattingOptions
+): Uint8Array {
+  if (method === "guided") {
+    guidedFilter(mask, rgba, width, height, radius, epsilon);
+  } else {
+    trimapMatting(mask, rgba, width, height, radius);
+  }
+  return mask;
+}
@@ -0,0 +1,257 @@
+// Where model files come from, and offline copies of them. Models load from the
+// Hugging Face hub by default; self-hosted installs point localModelPath at
+// their own copy (e.g. "/models/" for files in public/models) and can turn the
+// hub off entirely. Offline copies are written to the Cache API store that
+// transformers.js reads from, so a cached model loads without any network.
+
+import { env } from "@huggingface/transformers";
+import { ModelDefinition, ModelDtype, getModelDefinition, getModelVariants } from "./models";
+
+export interface ModelSource {
+  localModelPath: string | null; // Base URL or path of self-hosted models; null for the hub
+  allowRemoteModels: boolean;
+}
+
+export interface OfflineModelFile {
+  file: string; // Path inside the model repository
+  url: string; // Cache key transformers.js looks the file up by
+  size: number;
+  sha256: string;
+}
+
+export interface OfflineModelManifest {
+  modelId: string;
+  downloadedAt: number;
+  files: OfflineModelFile[];
+}
+
+export interface IntegrityReport {
+  ok: boolean;
+  missing: string[];
+  corrupted: string[]; // Removed from the cache, so they are fetched again
+}
+
+export interface ModelDownloadProgressCallback {
+  (file: string, loaded: number, total: number): void; // Bytes of the current file; total is 0 if unknown
+}
+
+// transformers.js's cache, and ours for the manifests of downloaded models
+const MODEL_CACHE = "transformers-cache";
+const MANIFEST_CACHE = "bg-remover-offline-models";
+
+// transformers.js's file naming for each precision's weights
+const WEIGHT_SUFFIX: Record<ModelDtype, string> = {
+  fp32: "",
+  fp16: "_fp16",
+  q8: "_quantized",
+  int8: "_int8",
+  uint8: "_uint8",
+  q4: "_q4",
+  bnb4: "_bnb4",
+  q4f16: "_q4f16"
+};
+
+let source: ModelSource = { localModelPath: null, allowRemoteModels: true };
+
+export function configureModelSource(update: Partial<ModelSource>): void {
+  source = { ...source, ...update };
+  if (!source.localModelPath?.trim()) {
+    source.localModelPath = null;
+  }
+}
+
+export function getModelSource(): ModelSource {
+  return { ...source };
+}
+
+/**
+ * Point transformers.js at the configured source. Called before every model load.
+ */
+export function applyModelSource(): void {
+  // transformers.js won't even read its cache with both local and remote
+  // loading off, so offline-only installs keep local lookups enabled
+  env.allowLocalModels = source.localModelPath !== null || !source.allowRemoteModels;
+  if (source.localModelPath !== null) {
+    env.localModelPath = source.localModelPath;
+  }
+  env.allowRemoteModels = source.allowRemoteModels;
+  env.useBrowserCache = typeof caches !== "undefined";
+}
+
+// Same joining rules as transformers.js, so cache keys match exactly
+function pathJoin(...parts: string[]): string {
+  return parts
+    .map((part, index) => {
+      if (index > 0) part = part.replace(/^\//, "");
+      if (index < parts.length - 1) part = part.replace(/\/$/, "");
+      return part;
+    })
+    .join("/");
+}
+
+function fileUrl(modelId: string, file: string): string {
+  if (source.localModelPath !== null) {
+    return pathJoin(source.localModelPath, modelId, file);
+  }
+  const repoPath = env.remotePathTemplate.replaceAll("{model}", modelId).replaceAll("{revision}", "main");
+  return pathJoin(env.remoteHost, repoPath, file);
+}
+
+const manifestKey = (modelId: string) => `/offline-models/${encodeURIComponent(modelId)}.json`;
+
+async function sha256(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function requireDefinition(modelId: string): ModelDefinition {
+  const definition = getModelDefinition(modelId);
+  if (!definition) throw new Error(`Unknown model: ${modelId}`);
+  return definition;
+}
+
+function requireCacheApi(): void {
+  if (typeof caches === "undefined") {
+    throw new Error("This browser can't store models for offline use");
+  }
+}
+
+async function readBody(response: Response, onProgress: (loaded: number, total: number) => void): Promise<ArrayBuffer> {
+  const total = Number(response.headers.get("content-length")) || 0;
+  if (!response.body) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress(loaded, total);
+  }
+  return new Blob(chunks).arrayBuffer();
+}
+
+/**
+ * Files transformers.js fetches for a model: configs the registry doesn't
+ * already supply, plus the weights of the given variants (by default, the
+ * default variant of each device the model runs on)
+ */
+export function getModelFiles(definition: ModelDefinition, dtypes?: ModelDtype[]): string[] {
+  const selected = dtypes ?? definition.devices.flatMap(device => getModelVariants(definition, device)[0]?.dtype ?? []);
+  const weights = new Set(selected.map(dtype => `onnx/model${WEIGHT_SUFFIX[dtype]}.onnx`));
+  return [
+    ...(definition.modelConfig ? [] : ["config.json"]),
+    ...(definition.preprocessing ? [] : ["preprocessor_config.json"]),
+    ...weights
+  ];
+}
+
+export async function getOfflineManifest(modelId: string): Promise<OfflineModelManifest | null> {
+  if (typeof caches === "undefined") return null;
+  const response = await (await caches.open(MANIFEST_CACHE)).match(manifestKey(modelId));
+  return response ? response.json() : null;
+}
+
+/**
+ * Download a model's files into the cache so it can load offline; dtypes
+ * picks which weights. Files with a pinned checksum in the registry are
+ * rejected if they don't match it.
+ */
+export async function downloadModelForOffline(
+  modelId: string,
+  onProgress?: ModelDownloadProgressCallback,
+  dtypes?: ModelDtype[]
+): Promise<OfflineModelManifest> {
+  const definition = requireDefinition(modelId);
+  requireCacheApi();
+
+  try {
+    const cache = await caches.open(MODEL_CACHE);
+    const files: OfflineModelFile[] = [];
+
+    for (const file of getModelFiles(definition, dtypes)) {
+      const url = fileUrl(definition.id, file);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`${file} could not be downloaded (HTTP ${response.status})`);
+      }
+
+      const buffer = await readBody(response, (loaded, total) => onProgress?.(file, loaded, total));
+      const hash = await sha256(buffer);
+      const pinned = definition.checksums?.[file];
+      if (pinned && pinned.toLowerCase() !== hash) {
+        throw new Error(`${file} does not match its published checksum`);
+      }
+
+      await cache.put(url, new Response(buffer, {
+        headers: {
+          "content-type": response.headers.get("content-type") ?? "application/octet-stream",
+          "content-length": String(buffer.byteLength)
+        }
+      }));
+      files.push({ file, url, size: buffer.byteLength, sha256: hash });
+    }
+
+    const manifest: OfflineModelManifest = { modelId, downloadedAt: Date.now(), files };
+    await (await caches.open(MANIFEST_CACHE)).put(
+      manifestKey(modelId),
+      new Response(JSON.stringify(manifest), { headers: { "content-type": "application/json" } })
+    );
+    return manifest;
+  } catch (error) {
+    console.error("Error downloading model:", error);
+    throw new Error(
+      `Failed to download ${definition.label}: ${error instanceof Error ? error.message : "unknown error"}`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Re-hash every cached file of a downloaded model against its manifest.
+ * Corrupted files are dropped from the cache.
+ */
+export async function verifyOfflineModel(modelId: string): Promise<IntegrityReport> {
+  const definition = requireDefinition(modelId);
+  requireCacheApi();
+
+  const manifest = await getOfflineManifest(modelId);
+  if (!manifest) {
+    return { ok: false, missing: getModelFiles(definition), corrupted: [] };
+  }
+
+  const cache = await caches.open(MODEL_CACHE);
+  const missing: string[] = [];
+  const corrupted: string[] = [];
+
+  for (const entry of manifest.files) {
+    const response = await cache.match(entry.url);
+    if (!response) {
+      missing.push(entry.file);
+      continue;
+    }
+
+    const hash = await sha256(await response.arrayBuffer());
+    const pinned = definition.checksums?.[entry.file]?.toLowerCase();
+    if (hash !== entry.sha256 || (pinned && hash !== pinned)) {
+      corrupted.push(entry.file);
+      await cache.delete(entry.url);
+    }
+  }
+
+  return { ok: missing.length === 0 && corrupted.length === 0, missing, corrupted };
+}
+
+/**
+ * Delete a model's offline copy
+ */
+export async function removeOfflineModel(modelId: string): Promise<void> {
+  if (typeof caches === "undefined") return;
+
+  const manifest = await getOfflineManifest(modelId);
+  const cache = await caches.open(MODEL_CACHE);
+  await Promise.all((manifest?.files ?? []).map(entry => cache.delete(entry.url)));
+  await (await caches.open(MANIFEST_CACHE)).delete(manifestKey(modelId));
+}
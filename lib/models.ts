@@ -0,0 +1,124 @@
+// Registry of the background removal models the app can load. Everything that
+// differs between models lives here, so adding one (BiRefNet, U²-Net, an
+// in-house fine-tune) is a matter of registering another entry.
+
+export type ModelDevice = "webgpu" | "wasm";
+
+// Weight precisions transformers.js can load
+export type ModelDtype = "fp32" | "fp16" | "q8" | "int8" | "uint8" | "q4" | "bnb4" | "q4f16";
+
+export interface ModelPreprocessing {
+  mean: [number, number, number];
+  std: [number, number, number];
+  size: { width: number; height: number };
+  pad: boolean;
+}
+
+// A precision the model's repository publishes weights for
+export interface ModelVariant {
+  dtype: ModelDtype;
+  devices: ModelDevice[];
+  sizeMB: number; // Approximate download size
+  tradeoff: string; // Quality and speed compared with the other variants, shown before picking
+}
+
+export interface ModelDefinition {
+  id: string; // Hugging Face repository ID
+  label: string; // Shown in the model selector
+  // Overrides the repository's preprocessor_config.json when given
+  preprocessing?: ModelPreprocessing;
+  devices: ModelDevice[]; // In order of preference
+  inputName: string;
+  outputName: string; // Tensor holding the alpha matte
+  modelConfig?: Record<string, unknown>; // For repos without a usable config.json
+  checksums?: Record<string, string>; // SHA-256 of repo files, checked on offline download
+  variants: ModelVariant[]; // The first one for a device is its default
+  license: string;
+}
+
+export const DEFAULT_MODEL_ID = "briaai/RMBG-1.4";
+
+const registry = new Map<string, ModelDefinition>();
+
+/**
+ * Add a model to the registry, replacing any entry with the same ID
+ */
+export function registerModel(model: ModelDefinition): void {
+  if (model.devices.length === 0) {
+    throw new Error(`Model ${model.id} must support at least one device`);
+  }
+  registry.set(model.id, model);
+}
+
+export function getModelDefinition(modelId: string): ModelDefinition | undefined {
+  return registry.get(modelId);
+}
+
+/**
+ * Variants of a model that run on a device, default first
+ */
+export function getModelVariants(model: ModelDefinition, device?: ModelDevice): ModelVariant[] {
+  return device ? model.variants.filter(variant => variant.devices.includes(device)) : model.variants;
+}
+
+/**
+ * Registered models in registration order, optionally only those that can
+ * run on one of the given devices
+ */
+export function listModels(devices?: ModelDevice[]): ModelDefinition[] {
+  const models = [...registry.values()];
+  return devices ? models.filter(model => model.devices.some(device => devices.includes(device))) : models;
+}
+
+registerModel({
+  id: DEFAULT_MODEL_ID,
+  label: "RMBG-1.4 (Cross-browser)",
+  preprocessing: {
+    mean: [0.5, 0.5, 0.5],
+    std: [0.5, 0.5, 0.5],
+    size: { width: 1024, height: 1024 },
+    pad: true
+  },
+  devices: ["wasm"],
+  inputName: "input",
+  outputName: "output",
+  variants: [
+    {
+      dtype: "q8",
+      devices: ["wasm"],
+      sizeMB: 44,
+      tradeoff: "8-bit: smallest and fastest, edges slightly less precise"
+    },
+    {
+      dtype: "fp32",
+      devices: ["wasm"],
+      sizeMB: 176,
+      tradeoff: "Full precision: finest edges, 4× the download and noticeably slower"
+    }
+  ],
+  license: "BRIA RMBG-1.4 licence: free for non-commercial use; commercial use needs an agreement with BRIA AI"
+});
+
+registerModel({
+  id: "Xenova/modnet",
+  label: "MODNet (WebGPU)",
+  devices: ["webgpu"],
+  inputName: "input",
+  outputName: "output",
+  modelConfig: { model_type: "modnet", architectures: ["MODNet"] },
+  variants: [
+    {
+      dtype: "fp32",
+      devices: ["webgpu"],
+      sizeMB: 26,
+      tradeoff: "Full precision: reference quality"
+    },
+    {
+      dtype: "fp16",
+      devices: ["webgpu"],
+      sizeMB: 13,
+      tradeoff: "Half precision: half the download and GPU memory, faster, near-identical results"
+    }
+  ],
+  license: "Apache-2.0"
+});
@@ -0,0 +1,394 @@
+// Minimal MP4 (ISO BMFF) demuxer for WebCodecs. Reads the sample tables of the
+// first video track so its samples can be fed to a VideoDecoder; sample data is
+// read lazily from the file. Fragmented MP4s and edit lists that cut or repeat
+// parts of the track are rejected; an edit list that only shifts it is applied.
+
+export interface Mp4Sample {
+  offset: number; // Byte offset in the file
+  size: number;
+  timestamp: number; // Presentation time, in microseconds
+  duration: number; // Microseconds
+  isKey: boolean;
+}
+
+export interface Mp4VideoTrack {
+  config: VideoDecoderConfig;
+  width: number; // Coded size; rotation is applied on playback
+  height: number;
+  rotation: 0 | 90 | 180 | 270;
+  frameRate: number;
+  samples: Mp4Sample[]; // In decode order
+}
+
+interface Box {
+  type: string;
+  start: number; // Offset of the payload within the view
+  end: number;
+}
+
+interface SampleEntry {
+  codec: string;
+  description?: Uint8Array;
+  width: number; // Coded size, before the track's rotation
+  height: number;
+}
+
+interface Edit {
+  duration: number; // In the movie's timescale; 0 for the rest of the media
+  mediaTime: number; // In the track's timescale; -1 for an empty edit
+  rate: number;
+}
+
+interface TrackTables {
+  timescale: number;
+  handler: string;
+  rotation: Mp4VideoTrack["rotation"];
+  sampleEntry?: SampleEntry;
+  timeToSample: Array<[count: number, delta: number]>;
+  compositionOffsets: Array<[count: number, offset: number]>;
+  sampleToChunk: Array<[firstChunk: number, samplesPerChunk: number]>;
+  sampleSizes: number[];
+  chunkOffsets: number[];
+  syncSamples?: Set<number>; // 1-based; every sample is a keyframe when absent
+  edits: Edit[];
+}
+
+const CONTAINER_BOXES = new Set(["moov", "trak", "edts", "mdia", "minf", "stbl"]);
+
+const UNSUPPORTED_EDITS = "Unsupported MP4: its edit list trims, cuts or repeats parts of the video. Re-save it as a plain MP4 and try again";
+
+const hex = (value: number, width = 2) => value.toString(16).toUpperCase().padStart(width, "0");
+
+function readType(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+}
+
+function* childBoxes(view: DataView, start: number, end: number): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readType(view, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) throw new Error(`Malformed MP4: bad size for "${type}" box`);
+
+    yield { type, start: offset + header, end: Math.min(offset + size, end) };
+    offset += size;
+  }
+}
+
+/**
+ * Find a top-level box by reading only box headers, so large mdat boxes are skipped
+ */
+async function findTopLevelBox(file: Blob, type: string): Promise<DataView> {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let size = header.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint64(header, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+
+    if (readType(header, 4) === type) {
+      return new DataView(await file.slice(offset + headerSize, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  throw new Error(`Not a supported MP4 file: no "${type}" box found`);
+}
+
+function rotationFromMatrix(a: number, b: number): Mp4VideoTrack["rotation"] {
+  const degrees = Math.round((Math.atan2(b, a) * 180) / Math.PI);
+  return (((degrees % 360) + 360) % 360) as Mp4VideoTrack["rotation"];
+}
+
+// RFC 6381 codec strings, built from the codec configuration boxes
+function avcCodec(config: Uint8Array): string {
+  return `avc1.${hex(config[1])}${hex(config[2])}${hex(config[3])}`;
+}
+
+function hevcCodec(config: Uint8Array): string {
+  const profileSpace = ["", "A", "B", "C"][config[1] >> 6];
+  const tier = (config[1] & 0x20) ? "H" : "L";
+  const profile = config[1] & 0x1f;
+
+  let compatibility = 0;
+  for (let i = 0; i < 32; i++) {
+    // The flags are written in reverse bit order
+    const bit = (config[2 + (i >> 3)] >> (7 - (i & 7))) & 1;
+    compatibility |= bit << i;
+  }
+
+  const constraints = Array.from(config.subarray(6, 12));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+
+  return [
+    "hvc1",
+    `${profileSpace}${profile}`,
+    (compatibility >>> 0).toString(16).toUpperCase(),
+    `${tier}${config[12]}`,
+    ...constraints.map(byte => hex(byte))
+  ].join(".");
+}
+
+function vp9Codec(config: Uint8Array): string {
+  // vpcC is a full box: skip version and flags
+  const [profile, level, depthAndChroma] = config.subarray(4);
+  return ["vp09", profile, level, depthAndChroma >> 4].map(String).map(part => part.padStart(2, "0")).join(".");
+}
+
+function av1Codec(config: Uint8Array): string {
+  const profile = config[1] >> 5;
+  const level = config[1] & 0x1f;
+  const tier = (config[2] & 0x80) ? "H" : "M";
+  const highBitDepth = (config[2] & 0x40) !== 0;
+  const twelveBit = (config[2] & 0x20) !== 0;
+  const bitDepth = highBitDepth ? (twelveBit ? 12 : 10) : 8;
+  return `av01.${profile}.${String(level).padStart(2, "0")}${tier}.${String(bitDepth).padStart(2, "0")}`;
+}
+
+function parseSampleEntry(view: DataView, box: Box): SampleEntry | undefined {
+  const width = view.getUint16(box.start + 24);
+  const height = view.getUint16(box.start + 26);
+
+  // Skip the SampleEntry and VisualSampleEntry fields to reach the child boxes
+  for (const child of childBoxes(view, box.start + 78, box.end)) {
+    const config = new Uint8Array(view.buffer, view.byteOffset + child.start, child.end - child.start);
+    switch (child.type) {
+      case "avcC":
+        return { codec: avcCodec(config), description: config.slice(), width, height };
+      case "hvcC":
+        return { codec: hevcCodec(config), description: config.slice(), width, height };
+      case "vpcC":
+        return { codec: vp9Codec(config), width, height };
+      case "av1C":
+        return { codec: av1Codec(config), description: config.slice(), width, height };
+    }
+  }
+  return undefined;
+}
+
+function parseTrack(view: DataView, trak: Box): TrackTables {
+  const tables: TrackTables = {
+    timescale: 0,
+    handler: "",
+    rotation: 0,
+    timeToSample: [],
+    compositionOffsets: [],
+    sampleToChunk: [],
+    sampleSizes: [],
+    chunkOffsets: [],
+    edits: []
+  };
+
+  const visit = (start: number, end: number) => {
+    for (const box of childBoxes(view, start, end)) {
+      if (CONTAINER_BOXES.has(box.type)) {
+        visit(box.start, box.end);
+        continue;
+      }
+
+      // Every table box below is a full box: one version byte, three flag bytes
+      const version = box.end > box.start ? view.getUint8(box.start) : 0;
+      const body = box.start + 4;
+
+      switch (box.type) {
+        case "tkhd": {
+          const matrix = body + (version === 1 ? 32 : 20) + 16;
+          tables.rotation = rotationFromMatrix(view.getInt32(matrix), view.getInt32(matrix + 4));
+          break;
+        }
+        case "mdhd":
+          tables.timescale = view.getUint32(body + (version === 1 ? 16 : 8));
+          break;
+        case "hdlr":
+          tables.handler = readType(view, body + 4);
+          break;
+        case "stsd": {
+          // Only the first sample description is used
+          const entry = childBoxes(view, body + 4, box.end).next().value;
+          if (entry) tables.sampleEntry = parseSampleEntry(view, entry);
+          break;
+        }
+        case "stts":
+          for (let i = 0, count = view.getUint32(body); i < count; i++) {
+            tables.timeToSample.push([view.getUint32(body + 4 + i * 8), view.getUint32(body + 8 + i * 8)]);
+          }
+          break;
+        case "ctts":
+          for (let i = 0, count = view.getUint32(body); i < count; i++) {
+            const offset = version === 1 ? view.getInt32(body + 8 + i * 8) : view.getUint32(body + 8 + i * 8);
+            tables.compositionOffsets.push([view.getUint32(body + 4 + i * 8), offset]);
+          }
+          break;
+        case "stsc":
+          for (let i = 0, count = view.getUint32(body); i < count; i++) {
+            tables.sampleToChunk.push([view.getUint32(body + 4 + i * 12), view.getUint32(body + 8 + i * 12)]);
+          }
+          break;
+        case "stsz": {
+          const fixedSize = view.getUint32(body);
+          const count = view.getUint32(body + 4);
+          for (let i = 0; i < count; i++) {
+            tables.sampleSizes.push(fixedSize || view.getUint32(body + 8 + i * 4));
+          }
+          break;
+        }
+        case "stco":
+          for (let i = 0, count = view.getUint32(body); i < count; i++) {
+            tables.chunkOffsets.push(view.getUint32(body + 4 + i * 4));
+          }
+          break;
+        case "co64":
+          for (let i = 0, count = view.getUint32(body); i < count; i++) {
+            tables.chunkOffsets.push(readUint64(view, body + 4 + i * 8));
+          }
+          break;
+        case "elst": {
+          const entrySize = version === 1 ? 20 : 12;
+          for (let i = 0, count = view.getUint32(body); i < count; i++) {
+            const entry = body + 4 + i * entrySize;
+            tables.edits.push(version === 1
+              ? { duration: readUint64(view, entry), mediaTime: Number(view.getBigInt64(entry + 8)), rate: view.getInt16(entry + 16) }
+              : { duration: view.getUint32(entry), mediaTime: view.getInt32(entry + 4), rate: view.getInt16(entry + 8) });
+          }
+          break;
+        }
+        case "stss":
+          tables.syncSamples = new Set();
+          for (let i = 0, count = view.getUint32(body); i < count; i++) {
+            tables.syncSamples.add(view.getUint32(body + 4 + i * 4));
+          }
+          break;
+      }
+    }
+  };
+
+  visit(trak.start, trak.end);
+  return tables;
+}
+
+/**
+ * How far the edit list moves the track's presentation times back, in its
+ * timescale. An empty first edit only delays the start, and is dropped.
+ */
+function editListShift(
+  { edits, timescale }: TrackTables,
+  movieTimescale: number,
+  spans: Array<[start: number, end: number]>
+): number {
+  const mediaEdits = edits.filter(edit => edit.mediaTime !== -1);
+  if (mediaEdits.length === 0) return 0;
+  if (mediaEdits.length > 1 || mediaEdits[0].rate !== 1) throw new Error(UNSUPPORTED_EDITS);
+
+  const { duration, mediaTime } = mediaEdits[0];
+  const shownUntil = duration > 0 ? mediaTime + (duration * timescale) / movieTimescale : Infinity;
+  if (spans.some(([start, end]) => end <= mediaTime || start >= shownUntil)) {
+    throw new Error(UNSUPPORTED_EDITS);
+  }
+  return mediaTime;
+}
+
+function buildSamples(tables: TrackTables, movieTimescale: number): Mp4Sample[] {
+  const toMicros = (units: number) => Math.round((units * 1e6) / tables.timescale);
+  const samples: Mp4Sample[] = [];
+
+  // Byte offsets: walk chunks, using the stsc run that covers each chunk
+  let sampleIndex = 0;
+  tables.chunkOffsets.forEach((chunkOffset, chunk) => {
+    const run = tables.sampleToChunk.filter(([firstChunk]) => firstChunk <= chunk + 1).pop();
+    let offset = chunkOffset;
+    for (let i = 0; i < (run?.[1] ?? 0) && sampleIndex < tables.sampleSizes.length; i++) {
+      const size = tables.sampleSizes[sampleIndex++];
+      samples.push({ offset, size, timestamp: 0, duration: 0, isKey: false });
+      offset += size;
+    }
+  });
+
+  // Timing: decode times from stts, shifted to presentation times by ctts and the edit list
+  const deltas = tables.timeToSample.flatMap(([count, delta]) => Array<number>(count).fill(delta));
+  const offsets = tables.compositionOffsets.flatMap(([count, offset]) => Array<number>(count).fill(offset));
+  const spans: Array<[start: number, end: number]> = [];
+  let decodeTime = 0;
+  samples.forEach((sample, i) => {
+    const delta = deltas[i] ?? deltas[deltas.length - 1] ?? 0;
+    const start = decodeTime + (offsets[i] ?? 0);
+    spans.push([start, start + delta]);
+    sample.duration = toMicros(delta);
+    sample.isKey = tables.syncSamples?.has(i + 1) ?? true;
+    decodeTime += delta;
+  });
+
+  const shift = editListShift(tables, movieTimescale, spans);
+  samples.forEach((sample, i) => {
+    sample.timestamp = toMicros(spans[i][0] - shift);
+  });
+
+  return samples;
+}
+
+/**
+ * Read the first video track of an MP4 file
+ */
+export async function demuxMp4(file: Blob): Promise<Mp4VideoTrack> {
+  const moov = await findTopLevelBox(file, "moov");
+
+  let movieTimescale = 0;
+  for (const box of childBoxes(moov, 0, moov.byteLength)) {
+    if (box.type === "mvex") {
+      throw new Error("Fragmented MP4s aren't supported. Re-save the video as a plain MP4 and try again");
+    }
+    if (box.type === "mvhd") {
+      movieTimescale = moov.getUint32(box.start + 4 + (moov.getUint8(box.start) === 1 ? 16 : 8));
+    }
+  }
+
+  for (const box of childBoxes(moov, 0, moov.byteLength)) {
+    if (box.type !== "trak") continue;
+
+    const tables = parseTrack(moov, box);
+    if (tables.handler !== "vide") continue;
+    if (!tables.sampleEntry) {
+      throw new Error("Unsupported video codec: only H.264, H.265, VP9 and AV1 can be decoded");
+    }
+
+    const samples = buildSamples(tables, movieTimescale || tables.timescale);
+    if (samples.length === 0) throw new Error("The video track has no frames");
+
+    const { codec, description, width, height } = tables.sampleEntry;
+    const totalDuration = samples.reduce((sum, sample) => sum + sample.duration, 0);
+    return {
+      config: { codec, description, codedWidth: width, codedHeight: height },
+      width,
+      height,
+      rotation: tables.rotation,
+      frameRate: totalDuration > 0 ? (samples.length * 1e6) / totalDuration : 30,
+      samples
+    };
+  }
+
+  throw new Error("No video track found in file");
+}
+
+/**
+ * Read one sample's encoded bytes from the file
+ */
+export async function readMp4Sample(file: Blob, sample: Mp4Sample): Promise<ArrayBuffer> {
+  return file.slice(sample.offset, sample.offset + sample.size).arrayBuffer();
+}
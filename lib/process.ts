@@ -4,187 +4,388 @@ import {
   AutoProcessor,
   RawImage,
   PreTrainedModel,
+  PretrainedConfig,
   Processor
 } from "@huggingface/transformers";
-
-// Initialize different model configurations
-const WEBGPU_MODEL_ID = "Xenova/modnet";
-const FALLBACK_MODEL_ID = "briaai/RMBG-1.4";
+import type { TemporalMaskFilter } from "./temporal";
+import { TiledInferenceOptions, refineMaskWithTiles } from "./tiling";
+import { MattingOptions, estimateForegroundColors, refineAlphaMatte } from "./matting";
+import {
+  DEFAULT_MODEL_ID,
+  ModelDefinition,
+  ModelDevice,
+  ModelDtype,
+  ModelPreprocessing,
+  getModelDefinition,
+  getModelVariants
+} from "./models";
+import { applyModelSource } from "./modelSource";
+import {
+  RuntimeCapabilities,
+  detectCapabilities,
+  getDetectedCapabilities,
+  hasWebGPUApi,
+  isIOSDevice
+} from "./capabilities";
 
 interface ModelState {
   model: PreTrainedModel | null;
   processor: Processor | null;
+  definition: ModelDefinition | null;
   isWebGPUSupported: boolean;
   currentModelId: string;
   isIOS: boolean;
+  runtime: ModelRuntime | null;
+  fallbacks: string[];
+}
+
+// Where and how the loaded model runs
+export interface ModelRuntime {
+  device: ModelDevice;
+  dtype?: ModelDtype; // Undefined means the device's default
+  numThreads?: number; // WASM only
 }
 
-interface ModelInfo {
+export interface InitializeModelOptions {
+  modelId?: string; // Defaults to DEFAULT_MODEL_ID
+  device?: ModelDevice; // Defaults to the first device the model and browser both support
+  dtype?: ModelDtype;
+  numThreads?: number; // WASM only; more than one needs cross-origin isolation
+}
+
+export interface ModelInfo {
   currentModelId: string;
   isWebGPUSupported: boolean;
   isIOS: boolean;
+  runtime: ModelRuntime | null; // null until a model has loaded
+  fallbacks: string[]; // Why the loaded model, device or settings differ from the request
+  capabilities: RuntimeCapabilities | null;
 }
 
-// iOS detection
-const isIOS = () => {
-  return [
-    'iPad Simulator',
-    'iPhone Simulator',
-    'iPod Simulator',
-    'iPad',
-    'iPhone',
-    'iPod'
-  ].includes(navigator.platform)
-  || (navigator.userAgent.includes("Mac") && "ontouchend" in document);
+// The ONNX proxy worker can only be spawned from the main thread
+const setWasmProxy = (enabled: boolean) => {
+  if (env.backends?.onnx?.wasm) {
+    env.backends.onnx.wasm.proxy = enabled && typeof document !== "undefined";
+  }
 };
 
 const state: ModelState = {
   model: null,
   processor: null,
+  definition: null,
   isWebGPUSupported: false,
-  currentModelId: FALLBACK_MODEL_ID,
-  isIOS: isIOS()
+  currentModelId: DEFAULT_MODEL_ID,
+  isIOS: isIOSDevice(),
+  runtime: null,
+  fallbacks: []
 };
 
-// Initialize WebGPU with proper error handling
-async function initializeWebGPU() {
-  const gpu = (navigator as any).gpu;
-  if (!gpu) {
-    return false;
-  }
+export type ModelLoadPhase = "downloading" | "initializing" | "ready" | "failed";
 
-  try {
-    // Test if we can actually create an adapter
-    const adapter = await gpu.requestAdapter();
-    if (!adapter) {
-      return false;
-    }
+export interface ModelLoadFile {
+  file: string;
+  loaded: number; // Bytes
+  total: number; // 0 until the size is known
+  done: boolean;
+}
+
+export interface ModelLoadProgress {
+  modelId: string;
+  phase: ModelLoadPhase;
+  files: ModelLoadFile[];
+  loaded: number; // Bytes, summed over all files
+  total: number;
+  progress: number; // 0-100
+  estimatedTimeRemaining?: number; // Milliseconds, while downloading
+}
+
+export type ModelLoadListener = (progress: ModelLoadProgress) => void;
 
-    // Configure environment for WebGPU
-    env.allowLocalModels = false;
-    if (env.backends?.onnx?.wasm) {
-      env.backends.onnx.wasm.proxy = false;
+// Status objects transformers.js sends to progress_callback, one stream per file
+interface TransformersProgressEvent {
+  status: "initiate" | "download" | "progress" | "done" | "ready";
+  file?: string;
+  loaded?: number;
+  total?: number;
+}
+
+const modelLoadListeners = new Set<ModelLoadListener>();
+let lastModelLoad: ModelLoadProgress | null = null;
+
+/**
+ * Subscribe to model loading progress. Returns a function that unsubscribes.
+ */
+export function onModelLoadProgress(listener: ModelLoadListener): () => void {
+  modelLoadListeners.add(listener);
+  return () => modelLoadListeners.delete(listener);
+}
+
+// The latest update, for listeners that subscribe mid-load
+export function getModelLoadProgress(): ModelLoadProgress | null {
+  return lastModelLoad;
+}
+
+function emitModelLoad(progress: ModelLoadProgress): void {
+  lastModelLoad = progress;
+  modelLoadListeners.forEach(listener => listener(progress));
+}
+
+// Turns transformers.js's per-file events into ModelLoadProgress updates
+function trackModelLoad(modelId: string) {
+  const files = new Map<string, ModelLoadFile>();
+  const startTime = Date.now();
+
+  const emit = (phase: ModelLoadPhase) => {
+    const list = [...files.values()];
+    const loaded = list.reduce((sum, file) => sum + file.loaded, 0);
+    const total = list.reduce((sum, file) => sum + Math.max(file.total, file.loaded), 0);
+
+    let estimatedTimeRemaining: number | undefined;
+    const elapsed = Date.now() - startTime;
+    if (phase === "downloading" && loaded > 0 && elapsed > 1000) {
+      estimatedTimeRemaining = ((total - loaded) / loaded) * elapsed;
     }
 
+    emitModelLoad({
+      modelId,
+      phase,
+      files: list,
+      loaded,
+      total,
+      progress: phase === "ready" ? 100 : total > 0 ? (loaded / total) * 100 : 0,
+      estimatedTimeRemaining
+    });
+  };
+
+  emit("downloading");
+
+  return {
+    onProgress: ({ status, file, loaded, total }: TransformersProgressEvent) => {
+      if (!file) return;
+      const entry = files.get(file) ?? { file, loaded: 0, total: 0, done: false };
+      files.set(file, entry);
+
+      if (status === "progress") {
+        entry.loaded = loaded ?? entry.loaded;
+        entry.total = total ?? entry.total;
+      } else if (status === "done") {
+        entry.done = true;
+        entry.total = Math.max(entry.total, entry.loaded);
+        entry.loaded = entry.total;
+      }
+
+      // Once every file is in, the time goes into creating the inference session
+      const allDone = [...files.values()].every(entry => entry.done);
+      emit(allDone ? "initializing" : "downloading");
+    },
+    finish: () => emit("ready"),
+    fail: () => emit("failed")
+  };
+}
+
+function processorConfig({ mean, std, size, pad }: ModelPreprocessing) {
+  return {
+    do_normalize: true,
+    do_pad: pad,
+    do_rescale: true,
+    do_resize: true,
+    image_mean: mean,
+    feature_extractor_type: "ImageFeatureExtractor",
+    image_std: std,
+    resample: 2,
+    rescale_factor: 0.00392156862745098,
+    size
+  };
+}
+
+// Load a registered model onto a device and make it the active one
+async function loadModel(
+  definition: ModelDefinition,
+  runtime: ModelRuntime,
+  preprocessing = definition.preprocessing
+): Promise<void> {
+  const { device, dtype, numThreads } = runtime;
+  applyModelSource();
+  setWasmProxy(device === "wasm");
+  if (device === "wasm" && env.backends?.onnx?.wasm && numThreads) {
+    env.backends.onnx.wasm.numThreads = numThreads;
+  }
+
+  if (device === "webgpu") {
     // Wait for WebAssembly initialization
     await new Promise(resolve => setTimeout(resolve, 100));
+  }
 
-    // Initialize model with WebGPU
-    state.model = await AutoModel.from_pretrained(WEBGPU_MODEL_ID, {
-      device: "webgpu",
-      config: {
-        model_type: 'modnet',
-        architectures: ['MODNet']
-      }
+  const tracker = trackModelLoad(definition.id);
+  let model: PreTrainedModel;
+  let processor: Processor;
+  try {
+    model = await AutoModel.from_pretrained(definition.id, {
+      device,
+      dtype,
+      config: definition.modelConfig ? new PretrainedConfig(definition.modelConfig) : undefined,
+      progress_callback: tracker.onProgress
+    });
+    processor = await AutoProcessor.from_pretrained(definition.id, {
+      config: preprocessing ? processorConfig(preprocessing) : undefined,
+      progress_callback: tracker.onProgress
     });
-    state.processor = await AutoProcessor.from_pretrained(WEBGPU_MODEL_ID);
-    state.isWebGPUSupported = true;
-    return true;
   } catch (error) {
-    console.error("WebGPU initialization failed:", error);
-    return false;
+    tracker.fail();
+    throw error;
   }
+
+  state.model = model;
+  state.processor = processor;
+  state.definition = definition;
+  state.currentModelId = definition.id;
+  state.runtime = runtime;
+  if (device === "webgpu") {
+    state.isWebGPUSupported = true;
+  }
+  tracker.finish();
 }
 
-// Initialize the model based on the selected model ID
-export async function initializeModel(forceModelId?: string): Promise<boolean> {
-  try {
-    // Always use RMBG-1.4 for iOS
-    if (state.isIOS) {
-      console.log('iOS detected, using RMBG-1.4 model');
-      env.allowLocalModels = false;
-      if (env.backends?.onnx?.wasm) {
-        env.backends.onnx.wasm.proxy = true;
-      }
+// Why a device can't be used in this browser, or null if it can
+function unavailableReason(device: ModelDevice, capabilities: RuntimeCapabilities): string | null {
+  if (device === "webgpu" && !capabilities.webgpu) {
+    return "WebGPU is not available in this browser";
+  }
+  if (device === "wasm" && !capabilities.wasmSimd) {
+    return "WebAssembly SIMD is not supported by this browser";
+  }
+  return null;
+}
 
-      state.model = await AutoModel.from_pretrained(FALLBACK_MODEL_ID, {
-        config: { model_type: 'custom' }
-      });
-
-      state.processor = await AutoProcessor.from_pretrained(FALLBACK_MODEL_ID, {
-        config: {
-          do_normalize: true,
-          do_pad: false,
-          do_rescale: true,
-          do_resize: true,
-          image_mean: [0.5, 0.5, 0.5],
-          feature_extractor_type: "ImageFeatureExtractor",
-          image_std: [1, 1, 1],
-          resample: 2,
-          rescale_factor: 0.00392156862745098,
-          size: { width: 1024, height: 1024 },
-        }
-      });
+// Settle the dtype and thread count for a device, noting anything that had to change
+function resolveRuntime(
+  definition: ModelDefinition,
+  device: ModelDevice,
+  request: InitializeModelOptions,
+  capabilities: RuntimeCapabilities,
+  fallbacks: string[]
+): ModelRuntime {
+  const variants = getModelVariants(definition, device);
+  const defaultDtype = variants[0]?.dtype;
+
+  let dtype = request.dtype;
+  if (dtype && variants.length > 0 && !variants.some(variant => variant.dtype === dtype)) {
+    fallbacks.push(`${definition.label} has no ${dtype} weights for ${device}; using ${defaultDtype}`);
+    dtype = undefined;
+  }
+  if (device === "webgpu" && dtype?.includes("f16") && !capabilities.webgpuFeatures.includes("shader-f16")) {
+    fallbacks.push(`${dtype} needs the WebGPU shader-f16 feature; using ${defaultDtype ?? "the default precision"}`);
+    dtype = undefined;
+  }
+  dtype ??= defaultDtype;
 
-      state.currentModelId = FALLBACK_MODEL_ID;
-      return true;
+  if (device !== "wasm") {
+    return { device, dtype };
+  }
+
+  // onnxruntime-web's own default: half the cores, at most four
+  const defaultThreads = Math.min(4, Math.max(1, Math.floor(capabilities.hardwareConcurrency / 2)));
+  let numThreads = request.numThreads ?? (capabilities.wasmThreads ? defaultThreads : 1);
+  if (numThreads > 1 && !capabilities.wasmThreads) {
+    fallbacks.push(capabilities.sharedArrayBuffer
+      ? "Multi-threaded WASM needs a cross-origin isolated page; using 1 thread"
+      : "Multi-threaded WASM needs SharedArrayBuffer; using 1 thread");
+    numThreads = 1;
+  }
+  return { device, dtype, numThreads };
+}
+
+async function initializeWithFallback(request: InitializeModelOptions, fallbacks: string[]): Promise<boolean> {
+  const capabilities = await detectCapabilities();
+
+  // Always use RMBG-1.4 for iOS
+  if (capabilities.isIOS) {
+    console.log('iOS detected, using RMBG-1.4 model');
+    if (request.modelId && request.modelId !== DEFAULT_MODEL_ID) {
+      fallbacks.push("iOS always uses RMBG-1.4");
     }
+    const definition = getModelDefinition(DEFAULT_MODEL_ID)!;
+    // Smallest weights, unpadded, with a unit std: lighter on iOS Safari's memory limits
+    await loadModel(
+      { ...definition, modelConfig: { model_type: 'custom' } },
+      resolveRuntime(definition, "wasm", { ...request, dtype: undefined }, capabilities, fallbacks),
+      definition.preprocessing && { ...definition.preprocessing, std: [1, 1, 1], pad: false }
+    );
+    state.fallbacks = fallbacks;
+    return true;
+  }
 
-    // Non-iOS flow remains the same
-    const selectedModelId = forceModelId || FALLBACK_MODEL_ID;
-    
-    // Try WebGPU if requested
-    if (selectedModelId === WEBGPU_MODEL_ID) {
-      const webGPUSuccess = await initializeWebGPU();
-      if (webGPUSuccess) {
-        state.currentModelId = WEBGPU_MODEL_ID;
-        return true;
-      }
-      // If WebGPU fails, fall through to fallback model without error
+  const selectedModelId = request.modelId || DEFAULT_MODEL_ID;
+  const definition = getModelDefinition(selectedModelId);
+  if (!definition) {
+    throw new Error(`Unknown model: ${selectedModelId}`);
+  }
+
+  // The requested device goes first; the model's other devices are fallbacks
+  let devices = definition.devices;
+  if (request.device) {
+    if (definition.devices.includes(request.device)) {
+      devices = [request.device, ...definition.devices.filter(device => device !== request.device)];
+    } else {
+      fallbacks.push(`${definition.label} doesn't run on ${request.device}`);
     }
-    
-    // Use fallback model
-    env.allowLocalModels = false;
-    if (env.backends?.onnx?.wasm) {
-      env.backends.onnx.wasm.proxy = true;
+  }
+
+  let lastError: unknown = null;
+  for (const device of devices) {
+    const reason = unavailableReason(device, capabilities);
+    if (reason) {
+      fallbacks.push(reason);
+      continue;
     }
-    
-    state.model = await AutoModel.from_pretrained(FALLBACK_MODEL_ID, {
-      progress_callback: (progress) => {
-        console.log(`Loading model: ${Math.round(progress * 100)}%`);
-      }
-    });
-    
-    state.processor = await AutoProcessor.from_pretrained(FALLBACK_MODEL_ID, {
-      revision: "main",
-      config: {
-        do_normalize: true,
-        do_pad: true,
-        do_rescale: true,
-        do_resize: true,
-        image_mean: [0.5, 0.5, 0.5],
-        feature_extractor_type: "ImageFeatureExtractor",
-        image_std: [0.5, 0.5, 0.5],
-        resample: 2,
-        rescale_factor: 0.00392156862745098,
-        size: { width: 1024, height: 1024 }
-      }
-    });
-    
-    state.currentModelId = FALLBACK_MODEL_ID;
-    
-    if (!state.model || !state.processor) {
-      throw new Error("Failed to initialize model or processor");
+    try {
+      await loadModel(definition, resolveRuntime(definition, device, request, capabilities, fallbacks));
+      state.fallbacks = fallbacks;
+      return true;
+    } catch (error) {
+      console.error(`Loading ${definition.id} on ${device} failed:`, error);
+      fallbacks.push(`${definition.label} failed to load on ${device}: ${error instanceof Error ? error.message : error}`);
+      lastError = error;
     }
-    
-    state.currentModelId = selectedModelId;
-    return true;
+  }
+
+  if (selectedModelId !== DEFAULT_MODEL_ID) {
+    console.log("Falling back to cross-browser model...");
+    // The requested precision belongs to the other model's weights
+    return initializeWithFallback({ ...request, modelId: DEFAULT_MODEL_ID, device: undefined, dtype: undefined }, fallbacks);
+  }
+  throw lastError ?? new Error(`${definition.label} can't run in this browser: ${fallbacks.join("; ")}`);
+}
+
+/**
+ * Load a model from the registry. Anything the browser can't honour falls
+ * back (another device, default precision, one thread, the default model),
+ * and getModelInfo().fallbacks says why. A plain string is taken as the model ID.
+ */
+export async function initializeModel(options: InitializeModelOptions | string = {}): Promise<boolean> {
+  const request = typeof options === "string" ? { modelId: options } : options;
+  try {
+    return await initializeWithFallback(request, []);
   } catch (error) {
     console.error("Error initializing model:", error);
-    if (forceModelId === WEBGPU_MODEL_ID) {
-      console.log("Falling back to cross-browser model...");
-      return initializeModel(FALLBACK_MODEL_ID);
-    }
     throw new Error(error instanceof Error ? error.message : "Failed to initialize background removal model");
   }
 }
 
+// Whether a model and processor are loaded and ready for inference
+export function isModelReady(): boolean {
+  return Boolean(state.model && state.processor);
+}
+
 // Get current model info
 export function getModelInfo(): ModelInfo {
   return {
     currentModelId: state.currentModelId,
-    isWebGPUSupported: Boolean((navigator as any).gpu),
-    isIOS: state.isIOS
+    isWebGPUSupported: hasWebGPUApi(),
+    isIOS: state.isIOS,
+    runtime: state.runtime,
+    fallbacks: [...state.fallbacks],
+    capabilities: getDetectedCapabilities()
   };
 }
 
@@ -192,10 +393,196 @@ export interface ProcessingProgressCallback {
   (progress: number, stage: string): void;
 }
 
+export interface ProcessImageOptions {
+  signal?: AbortSignal; // Aborting stops processing at the next stage boundary
+  temporalFilter?: TemporalMaskFilter; // Shared across the frames of an image sequence
+  highResolution?: TiledInferenceOptions; // Refine images larger than the model input with tiles
+  matting?: MattingOptions; // Refine the mask's edges against the image before applying it
+  estimateForeground?: boolean; // Take the old background's colour out of semi-transparent edges
+}
+
+// A single-channel alpha mask, one byte per pixel
+export interface AlphaMask {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface ProcessImageMetadata {
+  width: number;
+  height: number;
+  modelId: string;
+  runtime: ModelRuntime | null;
+  processingTime: number; // Milliseconds
+}
+
+export interface ProcessImageResult {
+  cutout: File; // PNG with the background removed
+  mask: File; // Grayscale PNG of the final alpha mask
+  metadata: ProcessImageMetadata;
+}
+
+// Tile size for models whose registry entry doesn't fix an input size
+const DEFAULT_TILE_SIZE = 1024;
+
+/**
+ * Whether an error came from an aborted AbortSignal
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Run the loaded model on an image and return its alpha matte, resized back to
+ * the image's resolution (one byte per pixel). Safe to call from a Web Worker.
+ */
+export async function predictAlphaMask(
+  img: RawImage,
+  reportProgress: ProcessingProgressCallback = () => {},
+  signal?: AbortSignal
+): Promise<Uint8Array> {
+  if (!state.model || !state.processor) {
+    throw new Error("Model not initialized. Call initializeModel() first.");
+  }
+
+  signal?.throwIfAborted();
+  reportProgress(15, "Preprocessing image");
+  // Pre-process image
+  const { pixel_values } = await state.processor(img);
+
+  try {
+    signal?.throwIfAborted();
+    reportProgress(30, "Running AI model");
+    // Predict alpha matte
+    const { inputName, outputName } = state.definition!;
+    const { [outputName]: output } = await state.model({ [inputName]: pixel_values });
+
+    try {
+      signal?.throwIfAborted();
+      reportProgress(60, "Processing mask");
+      const matte = output[0];
+      const scaled = matte.mul(255);
+      const bytes = scaled.to("uint8");
+      try {
+        // Resize mask back to original size
+        const mask = await RawImage.fromTensor(bytes).resize(img.width, img.height);
+        return mask.data as Uint8Array;
+      } finally {
+        // Every step above allocates its own tensor
+        bytes.dispose();
+        scaled.dispose();
+        matte.dispose();
+      }
+    } finally {
+      output.dispose();
+    }
+  } finally {
+    // Release tensors right away; on WebGPU they hold device memory
+    pixel_values.dispose();
+  }
+}
+
+/**
+ * Like predictAlphaMask, but for images larger than a tile the global mask is
+ * refined with overlapping full-resolution tiles. Much slower; smaller images
+ * take the single pass.
+ */
+export async function predictHighResolutionAlphaMask(
+  img: RawImage,
+  reportProgress: ProcessingProgressCallback = () => {},
+  signal?: AbortSignal,
+  options: TiledInferenceOptions = {}
+): Promise<Uint8Array> {
+  const size = state.definition?.preprocessing?.size;
+  const tileSize = options.tileSize ?? (size ? Math.max(size.width, size.height) : DEFAULT_TILE_SIZE);
+  if (Math.max(img.width, img.height) <= tileSize) {
+    return predictAlphaMask(img, reportProgress, signal);
+  }
+
+  const globalMask = await predictAlphaMask(img, (progress, stage) => reportProgress(progress / 2, stage), signal);
+  return refineMaskWithTiles(
+    img,
+    globalMask,
+    tile => predictAlphaMask(tile, undefined, signal),
+    { ...options, tileSize },
+    (done, total) => reportProgress(30 + (done / total) * 44, `Refining tile ${done} of ${total}`),
+    signal
+  );
+}
+
+/**
+ * Write a single-channel mask into the alpha channel of RGBA pixel data
+ */
+export function applyAlphaMask(rgba: Uint8ClampedArray, mask: Uint8Array): void {
+  for (let i = 0; i < mask.length; ++i) {
+    rgba[4 * i + 3] = mask[i];
+  }
+}
+
+/**
+ * Encode RGBA pixel data as a PNG blob, using an OffscreenCanvas when available
+ */
+export async function encodePng(rgba: Uint8ClampedArray, width: number, height: number): Promise<Blob> {
+  const imageData = new ImageData(rgba, width, height);
+
+  if (typeof OffscreenCanvas !== "undefined") {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get 2d context");
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.convertToBlob({ type: "image/png" });
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2d context");
+  ctx.putImageData(imageData, 0, 0);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Failed to create blob")),
+      "image/png"
+    )
+  );
+}
+
+/**
+ * Encode a mask as a grayscale PNG. With a threshold (0-255) the mask is
+ * binary: white where it is at least the threshold, black elsewhere.
+ */
+export async function encodeMaskPng({ data, width, height }: AlphaMask, threshold?: number): Promise<Blob> {
+  const rgba = new Uint8ClampedArray(4 * data.length);
+  for (let i = 0; i < data.length; ++i) {
+    const value = threshold === undefined ? data[i] : data[i] >= threshold ? 255 : 0;
+    rgba[4 * i] = rgba[4 * i + 1] = rgba[4 * i + 2] = value;
+    rgba[4 * i + 3] = 255;
+  }
+  return encodePng(rgba, width, height);
+}
+
+/**
+ * Read back a mask PNG written by encodeMaskPng
+ */
+export async function decodeMaskPng(blob: Blob): Promise<AlphaMask> {
+  const img = await RawImage.fromBlob(blob);
+  const data = new Uint8Array(img.width * img.height);
+  for (let i = 0; i < data.length; ++i) {
+    data[i] = img.data[i * img.channels];
+  }
+  return { data, width: img.width, height: img.height };
+}
+
+/**
+ * Remove the background of an image. Returns the cutout alongside the mask
+ * that produced it, so callers can export either.
+ */
 export async function processImage(
   image: File,
-  progressCallback?: ProcessingProgressCallback
-): Promise<File> {
+  progressCallback?: ProcessingProgressCallback,
+  options: ProcessImageOptions = {}
+): Promise<ProcessImageResult> {
+  const { signal, temporalFilter, highResolution, matting, estimateForeground } = options;
   if (!state.model || !state.processor) {
     throw new Error("Model not initialized. Call initializeModel() first.");
   }
@@ -207,62 +594,67 @@ export async function processImage(
   };
 
   try {
+    const startTime = performance.now();
     reportProgress(5, "Loading image");
-    const img = await RawImage.fromURL(URL.createObjectURL(image));
-
-    reportProgress(15, "Preprocessing image");
-    // Pre-process image
-    const { pixel_values } = await state.processor(img);
-
-    reportProgress(30, "Running AI model");
-    // Predict alpha matte
-    const { output } = await state.model({ input: pixel_values });
+    const img = await RawImage.fromBlob(image);
 
-    reportProgress(60, "Processing mask");
-    // Resize mask back to original size
-    const maskData = (
-      await RawImage.fromTensor(output[0].mul(255).to("uint8")).resize(
-        img.width,
-        img.height,
-      )
-    ).data;
+    const maskData = highResolution
+      ? await predictHighResolutionAlphaMask(img, reportProgress, signal, highResolution)
+      : await predictAlphaMask(img, reportProgress, signal);
 
+    signal?.throwIfAborted();
     reportProgress(75, "Creating output image");
-    // Create new canvas
-    const canvas = document.createElement("canvas");
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext("2d");
-    if(!ctx) throw new Error("Could not get 2d context");
+    // RawImage.fromBlob always yields RGBA data, so we can write into it directly
+    const pixelData = img.data as Uint8ClampedArray;
+
+    if (matting) {
+      reportProgress(80, "Refining edges");
+      refineAlphaMatte(maskData, pixelData, img.width, img.height, matting);
+      signal?.throwIfAborted();
+    }
 
-    // Draw original image output to canvas
-    ctx.drawImage(img.toCanvas(), 0, 0);
+    // Steady the mask against the previous frames before compositing
+    temporalFilter?.apply(maskData, pixelData);
 
     reportProgress(85, "Applying background removal");
     // Update alpha channel
-    const pixelData = ctx.getImageData(0, 0, img.width, img.height);
-    for (let i = 0; i < maskData.length; ++i) {
-      pixelData.data[4 * i + 3] = maskData[i];
+    applyAlphaMask(pixelData, maskData);
+
+    if (estimateForeground) {
+      signal?.throwIfAborted();
+      reportProgress(90, "Cleaning edge colours");
+      estimateForegroundColors(pixelData, img.width, img.height);
     }
-    ctx.putImageData(pixelData, 0, 0);
 
+    signal?.throwIfAborted();
     reportProgress(95, "Finalizing image");
-    // Convert canvas to blob
-    const blob = await new Promise<Blob>((resolve, reject) =>
-      canvas.toBlob(
-        (blob) => blob ? resolve(blob) : reject(new Error("Failed to create blob")),
-        "image/png"
-      )
-    );
+    const [blob, maskBlob] = await Promise.all([
+      encodePng(pixelData, img.width, img.height),
+      encodeMaskPng({ data: maskData, width: img.width, height: img.height })
+    ]);
 
     const [fileName] = image.name.split(".");
-    const processedFile = new File([blob], `${fileName}-bg-blasted.png`, { type: "image/png" });
+    const result: ProcessImageResult = {
+      cutout: new File([blob], `${fileName}-bg-blasted.png`, { type: "image/png" }),
+      mask: new File([maskBlob], `${fileName}-mask.png`, { type: "image/png" }),
+      metadata: {
+        width: img.width,
+        height: img.height,
+        modelId: state.currentModelId,
+        runtime: state.runtime && { ...state.runtime },
+        processingTime: performance.now() - startTime
+      }
+    };
 
     reportProgress(100, "Complete");
-    return processedFile;
+    return result;
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error("Error processing image:", error);
-    throw new Error("Failed to process image");
+    // Keep the original error so callers can tell transient failures apart
+    throw new Error("Failed to process image", { cause: error });
   }
 }
 
@@ -272,10 +664,11 @@ export interface BatchProcessingProgressCallback {
 
 export async function processImages(
   images: File[],
-  progressCallback?: BatchProcessingProgressCallback
-): Promise<File[]> {
+  progressCallback?: BatchProcessingProgressCallback,
+  options: ProcessImageOptions = {}
+): Promise<ProcessImageResult[]> {
   console.log("Processing images...");
-  const processedFiles: File[] = [];
+  const results: ProcessImageResult[] = [];
 
   for (let i = 0; i < images.length; i++) {
     const image = images[i];
@@ -286,8 +679,7 @@ export async function processImages(
         }
       };
 
-      const processedFile = await processImage(image, imageProgressCallback);
-      processedFiles.push(processedFile);
+      results.push(await processImage(image, imageProgressCallback, options));
       console.log("Successfully processed image", image.name);
     } catch (error) {
       console.error("Error processing image", image.name, error);
@@ -296,10 +688,10 @@ export async function processImages(
   }
 
   console.log("Processing images done");
-  return processedFiles;
+  return results;
 }
 
 // Legacy function for backward compatibility
 export async function processImageLegacy(image: File): Promise<File> {
-  return processImage(image);
+  return (await processImage(image)).cutout;
 }
@@ -0,0 +1,103 @@
+// Temporal smoothing for alpha masks of consecutive frames. Each frame is
+// matted on its own, so edges flicker from frame to frame; blending every mask
+// with the running average of the previous ones steadies them. With motion
+// guidance the blend backs off where the picture changed, so moving edges
+// don't leave a ghost trail behind them.
+
+export interface TemporalFilterOptions {
+  strength: number; // 0 (off) to 1: weight of the running average against the new mask
+  motionGuided?: boolean; // Defaults to true; needs the frame's pixels
+}
+
+export const DEFAULT_TEMPORAL_STRENGTH = 0.5;
+
+// Luma difference (0-255) at which a pixel counts as fully moving
+const MOTION_THRESHOLD = 48;
+// Mean luma difference above which the frame is treated as a scene cut
+const SCENE_CUT_THRESHOLD = 40;
+
+// Sequences are files like frame_0001.png, frame_0002.png, ...
+const SEQUENCE_PATTERN = /^(.*?)(\d+)\.png$/i;
+
+function toLuma(rgba: ArrayLike<number>, pixels: number): Uint8Array {
+  const luma = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    luma[i] = (rgba[4 * i] * 77 + rgba[4 * i + 1] * 150 + rgba[4 * i + 2] * 29) >> 8;
+  }
+  return luma;
+}
+
+export class TemporalMaskFilter {
+  private previousMask: Uint8Array | null = null;
+  private previousLuma: Uint8Array | null = null;
+  private readonly strength: number;
+  private readonly motionGuided: boolean;
+
+  constructor({ strength, motionGuided = true }: TemporalFilterOptions) {
+    this.strength = Math.max(0, Math.min(1, strength));
+    this.motionGuided = motionGuided;
+  }
+
+  /**
+   * Smooth the next frame's mask in place and return it. Pass the frame's RGBA
+   * pixels for motion guidance. A change of resolution starts over.
+   */
+  apply(mask: Uint8Array, rgba?: ArrayLike<number>): Uint8Array {
+    if (this.strength <= 0) return mask;
+
+    const luma = this.motionGuided && rgba ? toLuma(rgba, mask.length) : null;
+    const previousMask = this.previousMask?.length === mask.length ? this.previousMask : null;
+    const previousLuma = this.previousLuma?.length === mask.length ? this.previousLuma : null;
+
+    if (previousMask && !(luma && previousLuma && this.isSceneCut(luma, previousLuma))) {
+      for (let i = 0; i < mask.length; i++) {
+        let weight = this.strength;
+        if (luma && previousLuma) {
+          const motion = Math.abs(luma[i] - previousLuma[i]) / MOTION_THRESHOLD;
+          weight *= Math.max(0, 1 - motion);
+        }
+        mask[i] = Math.round(previousMask[i] * weight + mask[i] * (1 - weight));
+      }
+    }
+
+    this.previousMask = mask.slice();
+    this.previousLuma = luma;
+    return mask;
+  }
+
+  /**
+   * Forget previous frames, e.g. before starting another clip
+   */
+  reset(): void {
+    this.previousMask = null;
+    this.previousLuma = null;
+  }
+
+  private isSceneCut(luma: Uint8Array, previousLuma: Uint8Array): boolean {
+    let total = 0;
+    for (let i = 0; i < luma.length; i++) {
+      total += Math.abs(luma[i] - previousLuma[i]);
+    }
+    return total / luma.length > SCENE_CUT_THRESHOLD;
+  }
+}
+
+/**
+ * If the files form a numbered PNG sequence (same prefix, two or more frames),
+ * return them in frame order; otherwise null
+ */
+export function findImageSequence(files: File[]): File[] | null {
+  if (files.length < 2) return null;
+
+  const frames: Array<{ file: File; number: number }> = [];
+  let prefix: string | null = null;
+  for (const file of files) {
+    const match = SEQUENCE_PATTERN.exec(file.name);
+    if (!match) return null;
+    prefix ??= match[1];
+    if (match[1] !== prefix) return null;
+    frames.push({ file, number: Number(match[2]) });
+  }
+
+  return frames.sort((a, b) => a.number - b.number).map(frame => frame.file);
+}
@@ -0,0 +1,147 @@
+// Tiled inference for images much larger than the model's input. One pass
+// squeezes the whole picture into the model's resolution, so hair and fine
+// edges come out soft once the mask is scaled back up. Here that low-resolution
+// global mask decides what is foreground, and overlapping tiles at full
+// resolution refine the uncertain band along its edges. Tiles run one at a
+// time and blend into a single 16-bit accumulator, so memory stays at a few
+// bytes per pixel however many tiles there are.
+
+import type { RawImage } from "@huggingface/transformers";
+
+export interface TiledInferenceOptions {
+  tileSize?: number; // Pixels per side; defaults to the model's input size
+  overlap?: number; // Minimum overlap of neighbouring tiles, in pixels
+}
+
+export const DEFAULT_TILE_OVERLAP = 128;
+
+// How far (0-1) a global mask value is from a confident 0 or 255 before tiles
+// get a say, and how quickly they take over past that
+const EDGE_FLOOR = 0.04;
+const EDGE_GAIN = 4;
+
+// Weight (0-1) of the tile's prediction against the global mask, by global mask value
+const TILE_TRUST = Float32Array.from({ length: 256 }, (_, value) => {
+  const uncertainty = 1 - Math.abs((2 * value) / 255 - 1);
+  return Math.max(0, Math.min(1, (uncertainty - EDGE_FLOOR) * EDGE_GAIN));
+});
+
+// Fixed-point scale of the accumulator; 255 * 256 still fits in 16 bits
+const WEIGHT_SCALE = 256;
+
+interface AxisLayout {
+  starts: number[];
+  size: number; // Tile extent along the axis
+  weights: Float32Array[]; // Per tile; the weights of all tiles covering a pixel sum to 1
+}
+
+/**
+ * Spread tiles evenly along one axis, with linear cross-fades centred in each
+ * overlap. The fades are kept narrower than the gap between them, so no more
+ * than two tiles blend at any point.
+ */
+function layoutAxis(length: number, tileSize: number, overlap: number): AxisLayout {
+  const size = Math.min(tileSize, length);
+  const count = length <= size ? 1 : Math.ceil((length - overlap) / (size - overlap));
+  const starts = Array.from({ length: count }, (_, i) =>
+    count === 1 ? 0 : Math.round((i * (length - size)) / (count - 1))
+  );
+
+  let fade = Infinity;
+  for (let i = 1; i < count; i++) {
+    const stride = starts[i] - starts[i - 1];
+    fade = Math.min(fade, stride, size - stride);
+  }
+  fade = Math.max(1, Math.floor(fade / 2) * 2);
+
+  const weights = starts.map((start, i) => {
+    const weight = new Float32Array(size).fill(1);
+    for (let x = 0; x < size; x++) {
+      const position = start + x;
+      if (i > 0) {
+        const seam = (starts[i - 1] + size + start) / 2;
+        weight[x] = Math.min(weight[x], ramp(position - (seam - fade / 2), fade));
+      }
+      if (i < count - 1) {
+        const seam = (start + size + starts[i + 1]) / 2;
+        weight[x] = Math.min(weight[x], 1 - ramp(position - (seam - fade / 2), fade));
+      }
+    }
+    return weight;
+  });
+
+  return { starts, size, weights };
+}
+
+function ramp(offset: number, width: number): number {
+  return Math.max(0, Math.min(1, (offset + 0.5) / width));
+}
+
+function hasEdge(mask: Uint8Array, width: number, x0: number, y0: number, tileWidth: number, tileHeight: number): boolean {
+  for (let y = y0; y < y0 + tileHeight; y++) {
+    const row = y * width;
+    for (let x = x0; x < x0 + tileWidth; x++) {
+      if (TILE_TRUST[mask[row + x]] > 0) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Refine a global mask of img with full-resolution tiles. predict runs the
+ * model on one tile and returns its mask at the tile's size. Tiles without
+ * any edge in the global mask are skipped. The global mask is overwritten
+ * with the result, which is also returned.
+ */
+export async function refineMaskWithTiles(
+  img: RawImage,
+  globalMask: Uint8Array,
+  predict: (tile: RawImage) => Promise<Uint8Array>,
+  { tileSize, overlap = DEFAULT_TILE_OVERLAP }: TiledInferenceOptions & { tileSize: number },
+  onTile?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Uint8Array> {
+  const { width, height } = img;
+  const tileOverlap = Math.max(0, Math.min(overlap, Math.floor(tileSize / 2)));
+  const columns = layoutAxis(width, tileSize, tileOverlap);
+  const rows = layoutAxis(height, tileSize, tileOverlap);
+  const total = columns.starts.length * rows.starts.length;
+  const accumulator = new Uint16Array(width * height);
+
+  let done = 0;
+  for (let row = 0; row < rows.starts.length; row++) {
+    for (let column = 0; column < columns.starts.length; column++) {
+      signal?.throwIfAborted();
+      const x0 = columns.starts[column];
+      const y0 = rows.starts[row];
+      const weightsX = columns.weights[column];
+      const weightsY = rows.weights[row];
+
+      const tileMask = hasEdge(globalMask, width, x0, y0, columns.size, rows.size)
+        ? await predict(await img.crop([x0, y0, x0 + columns.size - 1, y0 + rows.size - 1]))
+        : null;
+
+      for (let y = 0; y < rows.size; y++) {
+        const weightY = weightsY[y] * WEIGHT_SCALE;
+        if (weightY === 0) continue;
+        let index = (y0 + y) * width + x0;
+        for (let x = 0; x < columns.size; x++, index++) {
+          const weight = weightY * weightsX[x];
+          if (weight === 0) continue;
+          const global = globalMask[index];
+          const value = tileMask
+            ? global + (tileMask[y * columns.size + x] - global) * TILE_TRUST[global]
+            : global;
+          accumulator[index] += Math.round(weight * value);
+        }
+      }
+
+      onTile?.(++done, total);
+    }
+  }
+
+  for (let i = 0; i < accumulator.length; i++) {
+    globalMask[i] = Math.min(255, (accumulator[i] + WEIGHT_SCALE / 2) >> 8);
+  }
+  return globalMask;
+}
@@ -0,0 +1,339 @@
+// Video background removal. Frames are decoded with WebCodecs, matted one at a
+// time, composited and re-encoded: onto a colour or image as H.264 MP4
+// (mp4-muxer), or with an alpha channel as VP9 WebM. Audio tracks are not
+// carried over. Clips run in a worker of their own that loaded VIDEO_MODEL_ID,
+// so the video model never replaces the app's image model.
+
+import { RawImage } from "@huggingface/transformers";
+import { Muxer, ArrayBufferTarget } from "mp4-muxer";
+import {
+  isModelReady,
+  predictAlphaMask,
+  applyAlphaMask,
+  isAbortError
+} from "./process";
+import { demuxMp4, readMp4Sample, Mp4VideoTrack } from "./mp4Demuxer";
+import { WebmMuxer } from "./webmMuxer";
+import { TemporalMaskFilter, TemporalFilterOptions } from "./temporal";
+
+// MODNet is trained for portrait matting, which is what most clips are
+export const VIDEO_MODEL_ID = "Xenova/modnet";
+
+export type VideoBackground =
+  | { type: "transparent" }
+  | { type: "color"; color: string }
+  | { type: "image"; image: Blob };
+
+export interface VideoProgressCallback {
+  (frame: number, totalFrames: number): void;
+}
+
+export interface ProcessVideoOptions {
+  background?: VideoBackground; // Defaults to transparent (WebM with alpha)
+  temporal?: TemporalFilterOptions; // Smooths masks across frames; off by default
+  signal?: AbortSignal;
+  onFrame?: VideoProgressCallback;
+}
+
+// H.264 needs a profile/level that covers the frame size; try the broadest first
+const MP4_CODECS = ["avc1.640033", "avc1.4d0033", "avc1.42e033"];
+const WEBM_ALPHA_CODEC = "vp09.00.10.08";
+const MAX_DECODE_QUEUE = 4;
+const MAX_ENCODE_QUEUE = 4;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+/**
+ * Whether a file should go through the video pipeline rather than processImage
+ */
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith("video/") || /\.mp4$/i.test(file.name);
+}
+
+/**
+ * Whether this browser has the WebCodecs APIs the pipeline needs
+ */
+export function isVideoProcessingSupported(): boolean {
+  return typeof VideoDecoder !== "undefined" &&
+    typeof VideoEncoder !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined";
+}
+
+function waitForEvent(target: EventTarget, type: string): Promise<void> {
+  return new Promise(resolve => target.addEventListener(type, () => resolve(), { once: true }));
+}
+
+/**
+ * Decode a track's samples into frames, in presentation order. Only a few
+ * frames are in flight at once; each yielded frame must be closed by the caller.
+ */
+async function* decodeFrames(
+  file: Blob,
+  track: Mp4VideoTrack,
+  signal?: AbortSignal
+): AsyncGenerator<VideoFrame> {
+  const frames: VideoFrame[] = [];
+  let decodeError: Error | null = null;
+  const events = new EventTarget();
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      frames.push(frame);
+      events.dispatchEvent(new Event("change"));
+    },
+    error: (error) => {
+      decodeError = error;
+      events.dispatchEvent(new Event("change"));
+    }
+  });
+  decoder.addEventListener("dequeue", () => events.dispatchEvent(new Event("change")));
+
+  try {
+    const support = await VideoDecoder.isConfigSupported(track.config);
+    if (!support.supported) {
+      throw new Error(`This browser can't decode ${track.config.codec} video`);
+    }
+    decoder.configure(track.config);
+
+    for (const sample of track.samples) {
+      signal?.throwIfAborted();
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.isKey ? "key" : "delta",
+        timestamp: sample.timestamp,
+        duration: sample.duration,
+        data: await readMp4Sample(file, sample)
+      }));
+
+      while (frames.length > 0 || decoder.decodeQueueSize > MAX_DECODE_QUEUE) {
+        if (decodeError) throw decodeError;
+        const frame = frames.shift();
+        if (frame) {
+          yield frame;
+        } else {
+          await waitForEvent(events, "change");
+        }
+      }
+    }
+
+    await decoder.flush();
+    if (decodeError) throw decodeError;
+    while (frames.length > 0) {
+      yield frames.shift()!;
+    }
+  } finally {
+    frames.forEach(frame => frame.close());
+    if (decoder.state !== "closed") decoder.close();
+  }
+}
+
+function get2dContext(canvas: OffscreenCanvas, willReadFrequently = false): OffscreenCanvasRenderingContext2D {
+  const ctx = canvas.getContext("2d", { willReadFrequently });
+  if (!ctx) throw new Error("Could not get 2d context");
+  return ctx;
+}
+
+interface FrameEncoder {
+  encode(frame: VideoFrame, keyFrame: boolean): Promise<void>;
+  finish(): Promise<Blob>;
+  close(): void;
+}
+
+async function createMp4Encoder(width: number, height: number, frameRate: number): Promise<FrameEncoder> {
+  const base = { width, height, framerate: frameRate, bitrate: Math.round(width * height * frameRate * 0.15) };
+  let config: VideoEncoderConfig | null = null;
+  for (const codec of MP4_CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({ ...base, codec });
+    if (supported) {
+      config = { ...base, codec };
+      break;
+    }
+  }
+  if (!config) throw new Error("This browser can't encode H.264 video");
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: "avc", width, height, frameRate },
+    fastStart: "in-memory",
+    firstTimestampBehavior: "offset"
+  });
+  return createEncoder(config, (chunk, meta) => muxer.addVideoChunk(chunk, meta), () => {
+    muxer.finalize();
+    return new Blob([muxer.target.buffer], { type: "video/mp4" });
+  });
+}
+
+async function createWebmEncoder(width: number, height: number, frameRate: number): Promise<FrameEncoder> {
+  const config: VideoEncoderConfig = {
+    codec: WEBM_ALPHA_CODEC,
+    width,
+    height,
+    framerate: frameRate,
+    bitrate: Math.round(width * height * frameRate * 0.2),
+    alpha: "keep"
+  };
+  const { supported } = await VideoEncoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error("This browser can't encode transparent video; choose a background colour or image instead");
+  }
+
+  const muxer = new WebmMuxer({ width, height, frameRate });
+  return createEncoder(
+    config,
+    // alphaSideData isn't in the DOM typings yet
+    (chunk, meta) => muxer.addVideoChunk(chunk, (meta as { alphaSideData?: AllowSharedBufferSource } | undefined)?.alphaSideData),
+    () => muxer.finalize()
+  );
+}
+
+function createEncoder(
+  config: VideoEncoderConfig,
+  onChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void,
+  finalize: () => Blob
+): FrameEncoder {
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: onChunk,
+    error: (error) => {
+      encodeError = error;
+    }
+  });
+  encoder.configure(config);
+
+  return {
+    async encode(frame, keyFrame) {
+      if (encodeError) throw encodeError;
+      encoder.encode(frame, { keyFrame });
+      // Backpressure: don't let frames pile up inside the encoder
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await waitForEvent(encoder, "dequeue");
+      }
+    },
+    async finish() {
+      try {
+        await encoder.flush();
+        if (encodeError) throw encodeError;
+        return finalize();
+      } finally {
+        this.close();
+      }
+    },
+    close() {
+      if (encoder.state !== "closed") encoder.close();
+    }
+  };
+}
+
+/**
+ * Remove the background from every frame of an MP4 video. Returns an MP4 when
+ * a background colour or image is given, otherwise a WebM with alpha. Runs
+ * with whatever model this thread has loaded; the worker pool loads
+ * VIDEO_MODEL_ID for it.
+ */
+export async function processVideo(video: File, options: ProcessVideoOptions = {}): Promise<File> {
+  const { background = { type: "transparent" }, temporal, signal, onFrame } = options;
+  if (!isVideoProcessingSupported()) {
+    throw new Error("Video processing needs a browser with WebCodecs support");
+  }
+
+  if (!isModelReady()) {
+    throw new Error("Model not initialized. Call initializeModel() first.");
+  }
+
+  let encoder: FrameEncoder | null = null;
+  try {
+    signal?.throwIfAborted();
+
+    const track = await demuxMp4(video);
+    const totalFrames = track.samples.length;
+    const keyFrameInterval = Math.max(1, Math.round(track.frameRate * KEYFRAME_INTERVAL_SECONDS));
+    const backgroundImage = background.type === "image" ? await createImageBitmap(background.image) : null;
+
+    let input: OffscreenCanvasRenderingContext2D | null = null;
+    let matte: OffscreenCanvasRenderingContext2D | null = null;
+    let output: OffscreenCanvasRenderingContext2D | null = null;
+    const temporalFilter = temporal ? new TemporalMaskFilter(temporal) : null;
+    let frameIndex = 0;
+
+    try {
+      for await (const frame of decodeFrames(video, track, signal)) {
+        try {
+          // Portrait clips are stored sideways; turn them upright for the model
+          const sideways = track.rotation === 90 || track.rotation === 270;
+          let width = sideways ? frame.displayHeight : frame.displayWidth;
+          let height = sideways ? frame.displayWidth : frame.displayHeight;
+          // H.264 needs even dimensions
+          width -= width % 2;
+          height -= height % 2;
+
+          if (!input || !matte || !output || !encoder) {
+            input = get2dContext(new OffscreenCanvas(width, height), true);
+            matte = get2dContext(new OffscreenCanvas(width, height));
+            output = background.type === "transparent" ? matte : get2dContext(new OffscreenCanvas(width, height));
+            encoder = background.type === "transparent"
+              ? await createWebmEncoder(width, height, track.frameRate)
+              : await createMp4Encoder(width, height, track.frameRate);
+          }
+
+          input.save();
+          input.translate(width / 2, height / 2);
+          input.rotate((track.rotation * Math.PI) / 180);
+          input.drawImage(frame, -frame.displayWidth / 2, -frame.displayHeight / 2);
+          input.restore();
+
+          const imageData = input.getImageData(0, 0, width, height);
+          const mask = await predictAlphaMask(new RawImage(imageData.data, width, height, 4), undefined, signal);
+          temporalFilter?.apply(mask, imageData.data);
+          applyAlphaMask(imageData.data, mask);
+          matte.putImageData(imageData, 0, 0);
+
+          if (background.type === "color") {
+            output.fillStyle = background.color;
+            output.fillRect(0, 0, width, height);
+            output.drawImage(matte.canvas, 0, 0);
+          } else if (backgroundImage) {
+            // Cover the frame, cropping the background image as needed
+            const scale = Math.max(width / backgroundImage.width, height / backgroundImage.height);
+            const drawWidth = backgroundImage.width * scale;
+            const drawHeight = backgroundImage.height * scale;
+            output.drawImage(backgroundImage, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+            output.drawImage(matte.canvas, 0, 0);
+          }
+
+          const composited = new VideoFrame(output.canvas, {
+            timestamp: frame.timestamp,
+            duration: frame.duration ?? undefined,
+            alpha: background.type === "transparent" ? "keep" : "discard"
+          });
+          try {
+            await encoder.encode(composited, frameIndex % keyFrameInterval === 0);
+          } finally {
+            composited.close();
+          }
+        } finally {
+          frame.close();
+        }
+
+        frameIndex++;
+        onFrame?.(frameIndex, totalFrames);
+      }
+    } finally {
+      backgroundImage?.close();
+    }
+
+    if (!encoder) throw new Error("The video has no decodable frames");
+    signal?.throwIfAborted();
+    const blob = await encoder.finish();
+
+    const [fileName] = video.name.split(".");
+    const extension = background.type === "transparent" ? "webm" : "mp4";
+    return new File([blob], `${fileName}-bg-blasted.${extension}`, { type: blob.type });
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error("Error processing video:", error);
+    // Unsupported codecs and the like are worth showing to the user as-is
+    throw new Error(error instanceof Error ? error.message : "Failed to process video", { cause: error });
+  } finally {
+    encoder?.close();
+  }
+}
@@ -0,0 +1,227 @@
+// Minimal in-memory WebM muxer for a single VP9 video track with an alpha
+// channel. mp4-muxer can't carry alpha, so transparent video is written as
+// WebM: the colour data goes in each Block and the alpha data from
+// VideoEncoder (alphaSideData) in a BlockAdditional, as Chrome expects.
+
+type EbmlValue = number | string | Uint8Array | EbmlFloat | EbmlElement[];
+
+interface EbmlElement {
+  id: number;
+  value: EbmlValue;
+}
+
+class EbmlFloat {
+  constructor(readonly value: number) {}
+}
+
+export interface WebmVideoOptions {
+  width: number;
+  height: number;
+  frameRate?: number;
+}
+
+interface BufferedFrame {
+  data: Uint8Array;
+  alpha?: Uint8Array;
+  timestamp: number; // Milliseconds
+  isKey: boolean;
+}
+
+// Cluster timecodes are 16-bit offsets from the cluster start
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+const textEncoder = new TextEncoder();
+
+function uintBytes(value: number, minLength = 1): number[] {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  while (bytes.length < minLength) bytes.unshift(0);
+  return bytes;
+}
+
+function sizeBytes(size: number): number[] {
+  // A length-L vint holds 7L bits; all-ones is reserved for "unknown size"
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = uintBytes(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function encodeValue(value: Exclude<EbmlValue, EbmlElement[]>): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (typeof value === "string") return textEncoder.encode(value);
+  if (typeof value === "number") return new Uint8Array(uintBytes(value));
+
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value.value);
+  return bytes;
+}
+
+/**
+ * Serialize an element as a list of parts, so frame data is never copied into
+ * one large buffer before it reaches the output Blob
+ */
+function encodeElement({ id, value }: EbmlElement): { size: number; parts: Uint8Array[] } {
+  const children = Array.isArray(value)
+    ? value.map(encodeElement)
+    : [{ size: -1, parts: [encodeValue(value)] }];
+  const parts = children.flatMap(child => child.parts);
+  const payloadSize = Array.isArray(value)
+    ? children.reduce((sum, child) => sum + child.size, 0)
+    : parts[0].length;
+
+  const header = new Uint8Array([...uintBytes(id), ...sizeBytes(payloadSize)]);
+  return { size: header.length + payloadSize, parts: [header, ...parts] };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return source instanceof ArrayBuffer || source instanceof SharedArrayBuffer
+    ? new Uint8Array(source).slice()
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice();
+}
+
+export class WebmMuxer {
+  private frames: BufferedFrame[] = [];
+  private firstTimestamp: number | null = null;
+
+  constructor(private options: WebmVideoOptions) {}
+
+  /**
+   * Add an encoded VP9 chunk, with the alpha side data VideoEncoder reports
+   * when configured with alpha: "keep"
+   */
+  addVideoChunk(chunk: EncodedVideoChunk, alphaSideData?: AllowSharedBufferSource): void {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+
+    // Timestamps are rebased so the file starts at zero
+    this.firstTimestamp ??= chunk.timestamp;
+    this.frames.push({
+      data,
+      alpha: alphaSideData ? toBytes(alphaSideData) : undefined,
+      timestamp: Math.round((chunk.timestamp - this.firstTimestamp) / 1000),
+      isKey: chunk.type === "key"
+    });
+  }
+
+  /**
+   * Write out the finished file
+   */
+  finalize(): Blob {
+    const { width, height, frameRate } = this.options;
+    const lastFrame = this.frames[this.frames.length - 1];
+    const duration = lastFrame ? lastFrame.timestamp + (frameRate ? 1000 / frameRate : 0) : 0;
+
+    const header: EbmlElement = {
+      id: 0x1a45dfa3, // EBML
+      value: [
+        { id: 0x4286, value: 1 }, // EBMLVersion
+        { id: 0x42f7, value: 1 }, // EBMLReadVersion
+        { id: 0x42f2, value: 4 }, // EBMLMaxIDLength
+        { id: 0x42f3, value: 8 }, // EBMLMaxSizeLength
+        { id: 0x4282, value: "webm" }, // DocType
+        { id: 0x4287, value: 4 }, // DocTypeVersion
+        { id: 0x4285, value: 2 } // DocTypeReadVersion
+      ]
+    };
+
+    const segment: EbmlElement = {
+      id: 0x18538067, // Segment
+      value: [
+        {
+          id: 0x1549a966, // Info
+          value: [
+            { id: 0x2ad7b1, value: 1000000 }, // TimecodeScale: milliseconds
+            { id: 0x4d80, value: "bg-remover" }, // MuxingApp
+            { id: 0x5741, value: "bg-remover" }, // WritingApp
+            { id: 0x4489, value: new EbmlFloat(duration) } // Duration
+          ]
+        },
+        {
+          id: 0x1654ae6b, // Tracks
+          value: [{
+            id: 0xae, // TrackEntry
+            value: [
+              { id: 0xd7, value: 1 }, // TrackNumber
+              { id: 0x73c5, value: 1 }, // TrackUID
+              { id: 0x83, value: 1 }, // TrackType: video
+              { id: 0x86, value: "V_VP9" }, // CodecID
+              { id: 0x55ee, value: 1 }, // MaxBlockAdditionID
+              {
+                id: 0xe0, // Video
+                value: [
+                  { id: 0xb0, value: width }, // PixelWidth
+                  { id: 0xba, value: height }, // PixelHeight
+                  { id: 0x53c0, value: 1 } // AlphaMode
+                ]
+              }
+            ]
+          }]
+        },
+        ...this.buildClusters()
+      ]
+    };
+
+    return new Blob([...encodeElement(header).parts, ...encodeElement(segment).parts], { type: "video/webm" });
+  }
+
+  private buildClusters(): EbmlElement[] {
+    const clusters: EbmlElement[] = [];
+    let current: { start: number; children: EbmlElement[] } | null = null;
+    let previousTimestamp = 0;
+
+    for (const frame of this.frames) {
+      // Start clusters on keyframes so players can seek to them
+      if (!current || (frame.isKey && frame.timestamp > current.start) ||
+          frame.timestamp - current.start > MAX_CLUSTER_SPAN_MS) {
+        current = { start: frame.timestamp, children: [{ id: 0xe7, value: frame.timestamp }] }; // Timecode
+        clusters.push({ id: 0x1f43b675, value: current.children }); // Cluster
+      }
+
+      const relative = frame.timestamp - current.start;
+      const block = concat([
+        new Uint8Array([0x81, (relative >> 8) & 0xff, relative & 0xff, 0x00]), // Track 1, timecode, flags
+        frame.data
+      ]);
+
+      const group: EbmlElement[] = [{ id: 0xa1, value: block }]; // Block
+      if (!frame.isKey) {
+        // ReferenceBlock: signed offset to the previous frame
+        const reference = new Uint8Array(4);
+        new DataView(reference.buffer).setInt32(0, previousTimestamp - frame.timestamp);
+        group.push({ id: 0xfb, value: reference });
+      }
+      if (frame.alpha) {
+        group.push({
+          id: 0x75a1, // BlockAdditions
+          value: [{
+            id: 0xa6, // BlockMore
+            value: [
+              { id: 0xee, value: 1 }, // BlockAddID
+              { id: 0xa5, value: frame.alpha } // BlockAdditional
+            ]
+          }]
+        });
+      }
+
+      current.children.push({ id: 0xa0, value: group }); // BlockGroup
+      previousTimestamp = frame.timestamp;
+    }
+
+    return clusters;
+  }
+}
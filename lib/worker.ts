@@ -0,0 +1,242 @@
+/// <reference lib="webworker" />
+// Background processing worker for BG Remover
+// Loads a transformers.js model and runs the whole processImage or processVideo
+// pipeline off the UI thread, so large batches and long clips don't freeze the page.
+// A worker runs either images or videos, depending on the model it was given.
+
+import {
+  initializeModel,
+  getModelInfo,
+  onModelLoadProgress,
+  processImage,
+  isAbortError
+} from "./process";
+import { configureModelSource } from "./modelSource";
+import { TemporalMaskFilter } from "./temporal";
+import { processVideo } from "./video";
+import {
+  WORKER_PROTOCOL_VERSION,
+  InitRequest,
+  ProcessImageRequest,
+  ProcessVideoRequest,
+  WorkerReply,
+  WorkerRequest
+} from "./workerProtocol";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+type WorkerJob = (ProcessImageRequest | ProcessVideoRequest) & {
+  controller: AbortController;
+};
+
+let isInitialized = false;
+let processingQueue: WorkerJob[] = [];
+let currentJob: WorkerJob | null = null;
+let isProcessing = false;
+const sequenceFilters = new Map<string, TemporalMaskFilter>();
+
+const reply = (message: WorkerReply) => {
+  self.postMessage(message);
+};
+
+// processImage wraps the underlying failure; keep both so the pool can spot out-of-memory errors
+function describeError(error: unknown): string {
+  const messages: string[] = [];
+  for (let current = error; current instanceof Error; current = current.cause) {
+    messages.push(current.message);
+  }
+  return messages.length > 0 ? messages.join(": ") : "Failed to process image";
+}
+
+// Initialize the worker by loading the model and processor
+async function initializeWorker({ requestId, protocolVersion, model, modelSource }: InitRequest) {
+  if (protocolVersion !== WORKER_PROTOCOL_VERSION) {
+    reply({
+      type: "init_failed",
+      requestId,
+      reason: "protocol_mismatch",
+      protocolVersion: WORKER_PROTOCOL_VERSION,
+      error: `Worker speaks protocol v${WORKER_PROTOCOL_VERSION}, caller sent v${protocolVersion}`
+    });
+    return;
+  }
+
+  const unsubscribe = onModelLoadProgress(progress => {
+    reply({ type: "model_load_progress", requestId, progress });
+  });
+
+  try {
+    reply({ type: "progress_update", requestId, progress: 10, stage: "Loading ML models..." });
+
+    if (modelSource) {
+      configureModelSource(modelSource);
+    }
+    await initializeModel(model);
+    isInitialized = true;
+
+    reply({ type: "progress_update", requestId, progress: 100, stage: "Ready" });
+    reply({
+      type: "worker_ready",
+      requestId,
+      protocolVersion: WORKER_PROTOCOL_VERSION,
+      modelInfo: getModelInfo()
+    });
+
+    // Start processing queue if there are pending jobs
+    processQueue();
+  } catch (error) {
+    reply({
+      type: "init_failed",
+      requestId,
+      reason: "model_load_failed",
+      protocolVersion: WORKER_PROTOCOL_VERSION,
+      error: error instanceof Error ? error.message : "Failed to initialize worker"
+    });
+  } finally {
+    unsubscribe();
+  }
+}
+
+// Add job to processing queue
+function addToQueue(job: WorkerJob) {
+  processingQueue.push(job);
+  if (isInitialized && !isProcessing) {
+    processQueue();
+  }
+}
+
+// Process the job queue
+async function processQueue() {
+  if (isProcessing || processingQueue.length === 0) {
+    return;
+  }
+
+  isProcessing = true;
+
+  while (processingQueue.length > 0) {
+    const job = processingQueue.shift();
+    if (job && !job.controller.signal.aborted) {
+      currentJob = job;
+      await processJob(job);
+      currentJob = null;
+    }
+  }
+
+  isProcessing = false;
+}
+
+// The filter shared by the frames of a sequence, created with its first frame
+function getSequenceFilter({ temporal }: ProcessImageRequest["options"]): TemporalMaskFilter | undefined {
+  if (!temporal) return undefined;
+
+  let filter = sequenceFilters.get(temporal.sequenceId);
+  if (!filter) {
+    filter = new TemporalMaskFilter(temporal);
+    sequenceFilters.set(temporal.sequenceId, filter);
+  }
+  return filter;
+}
+
+// Process a single job
+async function processJob(job: WorkerJob) {
+  const { requestId, jobId } = job;
+  const { signal } = job.controller;
+
+  try {
+    if (job.type === "process_video") {
+      const video = await processVideo(job.video, {
+        ...job.options,
+        signal,
+        onFrame: (frame, total) => reply({
+          type: "progress_update",
+          requestId,
+          jobId,
+          progress: (frame / total) * 100,
+          stage: `Frame ${frame} of ${total}`
+        })
+      });
+      signal.throwIfAborted();
+
+      reply({ type: "video_complete", requestId, jobId, video });
+      return;
+    }
+
+    const { image, options } = job;
+    const { cutout, mask, metadata } = await processImage(
+      image,
+      (progress, stage) => reply({ type: "progress_update", requestId, jobId, progress, stage }),
+      {
+        signal,
+        temporalFilter: getSequenceFilter(options),
+        highResolution: options.highResolution,
+        matting: options.matting,
+        estimateForeground: options.estimateForeground
+      }
+    );
+    signal.throwIfAborted();
+
+    reply({ type: "job_complete", requestId, jobId, cutout, mask, metadata });
+  } catch (error) {
+    if (isAbortError(error)) {
+      reply({ type: "job_cancelled", requestId, jobId });
+      return;
+    }
+    reply({ type: "job_failed", requestId, jobId, error: describeError(error) });
+  }
+}
+
+// Cancel a specific job. A running job stops at its next stage boundary.
+function cancelJob(jobId: string) {
+  if (currentJob?.jobId === jobId) {
+    currentJob.controller.abort();
+  }
+
+  processingQueue = processingQueue.filter(job => {
+    if (job.jobId !== jobId) return true;
+
+    job.controller.abort();
+    reply({ type: "job_cancelled", requestId: job.requestId, jobId });
+    return false;
+  });
+}
+
+// Handle messages from main thread
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "init":
+      initializeWorker(request);
+      break;
+
+    case "process_image":
+    case "process_video":
+      // Jobs sent before the model is ready wait in the queue
+      addToQueue({ ...request, controller: new AbortController() });
+      break;
+
+    case "cancel_job":
+      cancelJob(request.jobId);
+      break;
+
+    case "end_sequence":
+      sequenceFilters.delete(request.sequenceId);
+      break;
+
+    case "get_status":
+      reply({
+        type: "status",
+        requestId: request.requestId,
+        isInitialized,
+        isProcessing,
+        queueLength: processingQueue.length,
+        modelId: isInitialized ? getModelInfo().currentModelId : null
+      });
+      break;
+
+    default: {
+      const unknownRequest: never = request;
+      console.warn("Unknown message type:", (unknownRequest as { type?: string }).type);
+    }
+  }
+};
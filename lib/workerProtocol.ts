@@ -0,0 +1,179 @@
+// Message protocol shared by WorkerManager (main thread) and the inference worker.
+// Every request carries a requestId that the worker echoes on each reply, and
+// the init handshake rejects a worker built against a different protocol.
+
+import type { ModelSource } from "./modelSource";
+import type {
+  InitializeModelOptions,
+  ModelInfo,
+  ModelLoadProgress,
+  ProcessImageMetadata
+} from "./process";
+import type { TiledInferenceOptions } from "./tiling";
+import type { MattingOptions } from "./matting";
+import type { TemporalFilterOptions } from "./temporal";
+import type { ProcessVideoOptions } from "./video";
+
+export const WORKER_PROTOCOL_VERSION = 4;
+
+// The processImage options that can cross to a worker
+export interface WorkerProcessOptions {
+  highResolution?: TiledInferenceOptions;
+  matting?: MattingOptions;
+  estimateForeground?: boolean;
+  temporal?: TemporalFilterOptions & { sequenceId: string }; // Frames of one sequence share a filter
+}
+
+// The processVideo options that can cross to a worker
+export type WorkerVideoOptions = Pick<ProcessVideoOptions, "background" | "temporal">;
+
+// Requests: main thread -> worker
+
+export interface InitRequest {
+  type: "init";
+  requestId: string;
+  protocolVersion: number;
+  model?: InitializeModelOptions;
+  modelSource?: ModelSource; // Workers don't share the main thread's configuration
+}
+
+export interface ProcessImageRequest {
+  type: "process_image";
+  requestId: string;
+  jobId: string;
+  // Cloning a File copies a handle to its data, not the bytes, so there is
+  // nothing to transfer; the worker decodes it, keeping that off the UI thread
+  image: File;
+  options: WorkerProcessOptions;
+}
+
+// Needs a worker that loaded the video model
+export interface ProcessVideoRequest {
+  type: "process_video";
+  requestId: string;
+  jobId: string;
+  video: File;
+  options: WorkerVideoOptions;
+}
+
+export interface CancelJobRequest {
+  type: "cancel_job";
+  requestId: string;
+  jobId: string;
+}
+
+// The sequence is over; its temporal filter can go
+export interface EndSequenceRequest {
+  type: "end_sequence";
+  requestId: string;
+  sequenceId: string;
+}
+
+export interface GetStatusRequest {
+  type: "get_status";
+  requestId: string;
+}
+
+export type WorkerRequest =
+  | InitRequest
+  | ProcessImageRequest
+  | ProcessVideoRequest
+  | CancelJobRequest
+  | EndSequenceRequest
+  | GetStatusRequest;
+
+// Replies: worker -> main thread
+
+export interface WorkerReadyReply {
+  type: "worker_ready";
+  requestId: string;
+  protocolVersion: number;
+  modelInfo: ModelInfo;
+}
+
+export interface InitFailedReply {
+  type: "init_failed";
+  requestId: string;
+  reason: "protocol_mismatch" | "model_load_failed";
+  protocolVersion: number;
+  error: string;
+}
+
+export interface ModelLoadProgressReply {
+  type: "model_load_progress";
+  requestId: string;
+  progress: ModelLoadProgress;
+}
+
+export interface ProgressUpdateReply {
+  type: "progress_update";
+  requestId: string;
+  jobId?: string; // Absent while the model itself is loading
+  progress: number;
+  stage: string;
+}
+
+export interface JobCompleteReply {
+  type: "job_complete";
+  requestId: string;
+  jobId: string;
+  cutout: File;
+  mask: File;
+  metadata: ProcessImageMetadata;
+}
+
+export interface VideoCompleteReply {
+  type: "video_complete";
+  requestId: string;
+  jobId: string;
+  video: File; // MP4 with a background, or WebM with alpha
+}
+
+export interface JobFailedReply {
+  type: "job_failed";
+  requestId: string;
+  jobId: string;
+  error: string;
+}
+
+export interface JobCancelledReply {
+  type: "job_cancelled";
+  requestId: string;
+  jobId: string;
+}
+
+export interface WorkerStatusReply {
+  type: "status";
+  requestId: string;
+  isInitialized: boolean;
+  isProcessing: boolean;
+  queueLength: number;
+  modelId: string | null;
+}
+
+export type WorkerReply =
+  | WorkerReadyReply
+  | InitFailedReply
+  | ModelLoadProgressReply
+  | ProgressUpdateReply
+  | JobCompleteReply
+  | VideoCompleteReply
+  | JobFailedReply
+  | JobCancelledReply
+  | WorkerStatusReply;
+
+export type WorkerReplyType = WorkerReply["type"];
+
+export type ReplyOf<T extends WorkerReplyType> = Extract<WorkerReply, { type: T }>;
+
+// Omit distributed over the union, so each request keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type WorkerRequestPayload = DistributiveOmit<WorkerRequest, "requestId">;
+
+/**
+ * Generate a unique ID for a worker request
+ */
+export function createRequestId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
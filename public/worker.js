@@ -1,222 +0,0 @@
-// Background processing worker for BG Remover
-// This worker handles image processing in the background
-
-// Import the processing library (this would need to be adapted for worker context)
-// Note: In a real implementation, we'd need to set up the worker to load the ML models
-
-let isInitialized = false;
-let processingQueue = [];
-let isProcessing = false;
-
-// Message types
-const MESSAGE_TYPES = {
-  INIT: 'init',
-  PROCESS_IMAGE: 'process_image',
-  CANCEL_JOB: 'cancel_job',
-  GET_STATUS: 'get_status',
-  PROGRESS_UPDATE: 'progress_update',
-  JOB_COMPLETE: 'job_complete',
-  JOB_FAILED: 'job_failed',
-  WORKER_READY: 'worker_ready'
-};
-
-// Initialize the worker
-async function initializeWorker() {
-  try {
-    // In a real implementation, we would initialize the ML models here
-    // For now, we'll simulate initialization
-    postMessage({
-      type: MESSAGE_TYPES.PROGRESS_UPDATE,
-      data: { progress: 10, stage: 'Loading worker...' }
-    });
-
-    // Simulate model loading time
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    postMessage({
-      type: MESSAGE_TYPES.PROGRESS_UPDATE,
-      data: { progress: 50, stage: 'Loading ML models...' }
-    });
-
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    postMessage({
-      type: MESSAGE_TYPES.PROGRESS_UPDATE,
-      data: { progress: 100, stage: 'Ready' }
-    });
-
-    isInitialized = true;
-    
-    postMessage({
-      type: MESSAGE_TYPES.WORKER_READY,
-      data: { ready: true }
-    });
-
-    // Start processing queue if there are pending jobs
-    processQueue();
-  } catch (error) {
-    postMessage({
-      type: MESSAGE_TYPES.JOB_FAILED,
-      data: { error: error.message }
-    });
-  }
-}
-
-// Add job to processing queue
-function addToQueue(jobData) {
-  processingQueue.push(jobData);
-  if (isInitialized && !isProcessing) {
-    processQueue();
-  }
-}
-
-// Process the job queue
-async function processQueue() {
-  if (isProcessing || processingQueue.length === 0) {
-    return;
-  }
-
-  isProcessing = true;
-
-  while (processingQueue.length > 0) {
-    const job = processingQueue.shift();
-    if (job && !job.cancelled) {
-      await processJob(job);
-    }
-  }
-
-  isProcessing = false;
-}
-
-// Process a single job
-async function processJob(job) {
-  const { jobId, imageData, fileName } = job;
-
-  try {
-    // Report job started
-    postMessage({
-      type: MESSAGE_TYPES.PROGRESS_UPDATE,
-      data: { 
-        jobId, 
-        progress: 0, 
-        stage: 'Starting processing...' 
-      }
-    });
-
-    // Simulate image processing steps with progress updates
-    const stages = [
-      { progress: 10, stage: 'Loading image', delay: 200 },
-      { progress: 25, stage: 'Preprocessing image', delay: 300 },
-      { progress: 50, stage: 'Running AI model', delay: 2000 },
-      { progress: 75, stage: 'Processing mask', delay: 500 },
-      { progress: 90, stage: 'Creating output image', delay: 300 },
-      { progress: 100, stage: 'Complete', delay: 100 }
-    ];
-
-    for (const stage of stages) {
-      if (job.cancelled) {
-        return;
-      }
-
-      postMessage({
-        type: MESSAGE_TYPES.PROGRESS_UPDATE,
-        data: { 
-          jobId, 
-          progress: stage.progress, 
-          stage: stage.stage 
-        }
-      });
-
-      await new Promise(resolve => setTimeout(resolve, stage.delay));
-    }
-
-    // In a real implementation, we would process the actual image here
-    // For now, we'll simulate a successful result
-    postMessage({
-      type: MESSAGE_TYPES.JOB_COMPLETE,
-      data: { 
-        jobId,
-        processedImageData: imageData, // In reality, this would be the processed image
-        fileName: fileName.replace(/\.[^/.]+$/, '') + '-bg-removed.png'
-      }
-    });
-
-  } catch (error) {
-    postMessage({
-      type: MESSAGE_TYPES.JOB_FAILED,
-      data: { 
-        jobId,
-        error: error.message 
-      }
-    });
-  }
-}
-
-// Cancel a specific job
-function cancelJob(jobId) {
-  // Mark job as cancelled in queue
-  processingQueue.forEach(job => {
-    if (job.jobId === jobId) {
-      job.cancelled = true;
-    }
-  });
-
-  // Remove cancelled jobs from queue
-  processingQueue = processingQueue.filter(job => !job.cancelled);
-}
-
-// Get worker status
-function getStatus() {
-  postMessage({
-    type: MESSAGE_TYPES.GET_STATUS,
-    data: {
-      isInitialized,
-      isProcessing,
-      queueLength: processingQueue.length
-    }
-  });
-}
-
-// Handle messages from main thread
-self.onmessage = function(event) {
-  const { type, data } = event.data;
-
-  switch (type) {
-    case MESSAGE_TYPES.INIT:
-      initializeWorker();
-      break;
-
-    case MESSAGE_TYPES.PROCESS_IMAGE:
-      if (!isInitialized) {
-        // Queue the job for when worker is ready
-        addToQueue(data);
-      } else {
-        addToQueue(data);
-      }
-      break;
-
-    case MESSAGE_TYPES.CANCEL_JOB:
-      cancelJob(data.jobId);
-      break;
-
-    case MESSAGE_TYPES.GET_STATUS:
-      getStatus();
-      break;
-
-    default:
-      console.warn('Unknown message type:', type);
-  }
-};
-
-// Handle worker errors
-self.onerror = function(error) {
-  postMessage({
-    type: MESSAGE_TYPES.JOB_FAILED,
-    data: { 
-      error: error.message || 'Worker error occurred'
-    }
-  });
-};
-
-// Auto-initialize when worker loads
-initializeWorker();
@@ -2,10 +2,31 @@ import React, { useState, useCallback, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
 import { Images } from "./components/Images";
 import { HistoryGallery } from "./components/HistoryGallery";
+import { JobQueue } from "./components/JobQueue";
 import { Toast } from "./components/Toast";
-import { updateImageInHistory } from "./services/historyService";
-import { processImages, initializeModel, getModelInfo } from "../lib/process";
-import { saveImageToHistory } from "./services/historyService";
+import { NotificationCenter } from "./components/NotificationCenter";
+import { ModelSettings } from "./components/ModelSettings";
+import { ModelLoadStatus } from "./components/ModelLoadStatus";
+import { updateImageInHistory, getImageFromHistory, blobToFile } from "./services/historyService";
+import { getModelInfo, ModelInfo, InitializeModelOptions } from "../lib/process";
+import { isVideoFile } from "../lib/video";
+import { DEFAULT_MODEL_ID, ModelDtype, getModelDefinition, getModelVariants, listModels } from "../lib/models";
+import { DEFAULT_TEMPORAL_STRENGTH, findImageSequence } from "../lib/temporal";
+import type { MattingMethod } from "../lib/matting";
+import { detectCapabilities } from "../lib/capabilities";
+import type { JobStatus } from "./types";
+import { processFilesWithJobs, resumeInterruptedJobs, JobResult } from "./services/jobProcessor";
+import { cancelJob, getJob, jobEventEmitter, retryJob } from "./services/jobService";
+import { workerManager } from "./services/workerManager";
+import { storageManager } from "./services/storageManager";
+import { loadModelSourceSettings } from "./services/modelSourceSettings";
+import {
+  getPreferredModelId,
+  getPreferredDtype,
+  getPreferredModelOptions,
+  setPreferredModelId,
+  setPreferredDtype
+} from "./services/modelPreferences";
 
 interface AppError {
   message: string;
@@ -16,6 +37,10 @@ export interface ImageFile {
   file: File;
   processedFile?: File;
   originalProcessedFile?: File; // Keep the original processed file for editing
+  mask?: File; // Grayscale alpha mask the cutout was made with
+  jobId?: string; // The job processing the image, so it can be cancelled or retried
+  status?: JobStatus;
+  error?: string;
 }
 
 // Sample images from Unsplash
@@ -40,10 +65,18 @@ export default function App() {
   const [error, setError] = useState<AppError | null>(null);
   const [isWebGPU, setIsWebGPU] = useState(false);
   const [isIOS, setIsIOS] = useState(false);
-  const [currentModel, setCurrentModel] = useState<'briaai/RMBG-1.4' | 'Xenova/modnet'>('briaai/RMBG-1.4');
+  const [currentModel, setCurrentModel] = useState(getPreferredModelId);
+  const [currentDtype, setCurrentDtype] = useState(() => getPreferredDtype(getPreferredModelId()));
   const [isModelSwitching, setIsModelSwitching] = useState(false);
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
+  const [modelInfo, setModelInfo] = useState<ModelInfo | null>(null);
+  const [isHighResolution, setIsHighResolution] = useState(false);
+  const [mattingMethod, setMattingMethod] = useState<MattingMethod | null>(null);
+  const [isTemporalSmoothing, setIsTemporalSmoothing] = useState(false);
+  const [temporalStrength, setTemporalStrength] = useState(DEFAULT_TEMPORAL_STRENGTH);
   const [images, setImages] = useState<ImageFile[]>([]);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isJobQueueOpen, setIsJobQueueOpen] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   const [isProcessingImages, setIsProcessingImages] = useState(false);
 
@@ -54,12 +87,86 @@ export default function App() {
       // return;
     }
 
+    // Self-hosted or offline installs must be configured before any model loads
+    loadModelSourceSettings();
+
     // Only check iOS on load since that won't change
     const { isIOS: isIOSDevice } = getModelInfo();
     setIsIOS(isIOSDevice);
     setIsLoading(false);
+
+    // The model list depends on WebGPU, so it has to be known before the first image loads a model
+    detectCapabilities()
+      .then(({ webgpu }) => setIsWebGPU(webgpu))
+      .catch((err) => {
+        console.error('Failed to detect browser capabilities:', err);
+      });
+
+    // Finish batches that were cut short by closing or reloading the tab
+    resumeInterruptedJobs()
+      .then((resumed) => {
+        if (resumed > 0) {
+          setToast({
+            message: `Resuming ${resumed} unfinished ${resumed === 1 ? 'image' : 'images'} from your last visit`,
+            type: 'info'
+          });
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to resume interrupted jobs:', err);
+      });
+
+    // Keep history from being evicted by the browser, and trim it to the configured limits
+    storageManager.requestPersistence()
+      .then(() => storageManager.enforcePolicy())
+      .then(() => storageManager.checkQuota())
+      .catch((err) => {
+        console.error('Failed to apply storage policy:', err);
+      });
   }, []);
 
+  // Put a finished job's result on its card; the card takes the history ID for sync purposes
+  const showJobResult = useCallback((jobId: string, { processedFile, mask, historyId }: Omit<JobResult, 'jobId'>) => {
+    setImages(prev => prev.map(img =>
+      img.jobId === jobId
+        ? { ...img, id: historyId ?? img.id, processedFile, originalProcessedFile: processedFile, mask }
+        : img
+    ));
+  }, []);
+
+  // Cards follow their jobs, including retries that finish outside onDrop
+  useEffect(() => jobEventEmitter.onJobUpdate(({ jobId, status, error: jobError }) => {
+    setImages(prev => prev.map(img => (img.jobId === jobId ? { ...img, status, error: jobError } : img)));
+    if (status !== 'completed') return;
+
+    getJob(jobId)
+      .then(async (job) => {
+        if (!job?.processedFile) return;
+        const entry = job.historyId !== undefined ? await getImageFromHistory(job.historyId) : undefined;
+        showJobResult(jobId, {
+          processedFile: job.processedFile,
+          mask: entry?.mask && blobToFile(entry.mask, `${job.fileName}-mask.png`),
+          historyId: job.historyId
+        });
+      })
+      .catch((err) => {
+        console.error('Failed to load job result:', err);
+      });
+  }), [showJobResult]);
+
+  const handleCancelImage = (jobId: string) => {
+    cancelJob(jobId).catch((err) => {
+      console.error('Failed to cancel job:', err);
+    });
+  };
+
+  const handleRetryImage = (jobId: string) => {
+    retryJob(jobId).catch((err) => {
+      console.error('Failed to retry job:', err);
+      setToast({ message: 'Failed to retry image', type: 'error' });
+    });
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -76,31 +183,42 @@ export default function App() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [isHistoryOpen]);
 
-  const handleModelChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const newModel = event.target.value as typeof currentModel;
+  const switchModel = async (options: InitializeModelOptions) => {
     setIsModelSwitching(true);
     setError(null);
     try {
-      const initialized = await initializeModel(newModel);
-      if (!initialized) {
-        throw new Error("Failed to initialize new model");
-      }
-      setCurrentModel(newModel);
+      // The workers may have fallen back to another model or precision
+      const info = await workerManager.loadModel(options);
+      setCurrentModel(info.currentModelId);
+      setCurrentDtype(info.runtime?.dtype);
+      setModelInfo(info);
     } catch (err) {
-      if (err instanceof Error && err.message.includes("Falling back")) {
-        setCurrentModel('briaai/RMBG-1.4');
-      } else {
-        setError({
-          message: err instanceof Error ? err.message : "Failed to switch models"
-        });
-      }
+      setError({
+        message: err instanceof Error ? err.message : "Failed to switch models"
+      });
     } finally {
       setIsModelSwitching(false);
     }
   };
 
+  const handleModelChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const modelId = event.target.value;
+    setPreferredModelId(modelId);
+    return switchModel(getPreferredModelOptions(modelId));
+  };
+
+  const handleVariantChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const dtype = event.target.value as ModelDtype;
+    setPreferredDtype(currentModel, dtype);
+    return switchModel({ ...getPreferredModelOptions(currentModel), dtype });
+  };
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const newImages = acceptedFiles.map((file, index) => ({
+    // Frames of a numbered PNG sequence go in order; their masks are smoothed over time if asked for
+    const sequence = findImageSequence(acceptedFiles);
+    const temporal = sequence && isTemporalSmoothing ? { strength: temporalStrength } : undefined;
+
+    const newImages = (sequence ?? acceptedFiles).map((file, index) => ({
       id: Date.now() + index,
       file,
       processedFile: undefined
@@ -112,13 +230,12 @@ export default function App() {
       setIsLoading(true);
       setError(null);
       try {
-        const initialized = await initializeModel();
-        if (!initialized) {
-          throw new Error("Failed to initialize background removal model");
-        }
+        const info = await workerManager.loadModel(getPreferredModelOptions());
         // Update WebGPU support status after model initialization
-        const { isWebGPUSupported } = getModelInfo();
-        setIsWebGPU(isWebGPUSupported);
+        setIsWebGPU(info.isWebGPUSupported);
+        setCurrentModel(info.currentModelId);
+        setCurrentDtype(info.runtime?.dtype);
+        setModelInfo(info);
       } catch (err) {
         setError({
           message: err instanceof Error ? err.message : "An unknown error occurred"
@@ -130,38 +247,42 @@ export default function App() {
       setIsLoading(false);
     }
     
+    // Videos wait for the user to pick a background in their card
+    const stills = newImages.filter(image => !isVideoFile(image.file));
+    if (stills.length === 0) return;
+
     setIsProcessingImages(true);
-    for (const image of newImages) {
-      try {
-        const result = await processImages([image.file]);
-        if (result && result.length > 0) {
+    try {
+      await processFilesWithJobs(stills.map(image => image.file), {
+        batchName: stills.length === 1 ? stills[0].file.name : undefined,
+        temporal,
+        highResolution: isHighResolution ? {} : undefined,
+        matting: mattingMethod ? { method: mattingMethod } : undefined
+      }, {
+        onJobCreated: (file, jobId) => {
+          const image = stills.find(still => still.file === file);
           setImages(prev => prev.map(img =>
-            img.id === image.id
-              ? { ...img, processedFile: result[0], originalProcessedFile: result[0] }
-              : img
+            img.id === image?.id ? { ...img, jobId, status: 'pending' } : img
           ));
-
-          // Save to history automatically and update the image ID to match history ID
-          try {
-            const historyId = await saveImageToHistory(image.file, result[0]);
-            // Update the image ID to match the history ID for sync purposes
-            setImages(prev => prev.map(img =>
-              img.id === image.id
-                ? { ...img, id: historyId }
-                : img
-            ));
-            setToast({ message: 'Image saved to history', type: 'success' });
-          } catch (historyError) {
-            console.error('Error saving to history:', historyError);
-            setToast({ message: 'Failed to save to history', type: 'error' });
+        },
+        // The job update listener puts the result on its card; this only reports the save
+        onResult: (_file, { error: jobError, ...result }) => {
+          if (!result.processedFile) {
+            console.error('Error processing image:', jobError);
+            return;
           }
+
+          setToast(result.historyId !== undefined
+            ? { message: 'Image saved to history', type: 'success' }
+            : { message: 'Failed to save to history', type: 'error' });
         }
-      } catch (error) {
-        console.error('Error processing image:', error);
-      }
+      });
+    } catch (error) {
+      console.error('Error processing images:', error);
+    } finally {
+      setIsProcessingImages(false);
     }
-    setIsProcessingImages(false);
-  }, [images.length]);
+  }, [images.length, isHighResolution, mattingMethod, isTemporalSmoothing, temporalStrength]);
 
 
   const handlePaste = async (event: React.ClipboardEvent) => {
@@ -208,7 +329,7 @@ export default function App() {
       ));
 
       // Also update it in the history
-      await updateImageInHistory(id, editedImageUrl);
+      await updateImageInHistory(id, blob);
 
       // Show success toast
       setToast({ message: 'Image edited successfully!', type: 'success' });
@@ -222,6 +343,7 @@ export default function App() {
     // Reset app to initial state (back to dashboard)
     setImages([]);
     setIsHistoryOpen(false);
+    setIsJobQueueOpen(false);
     setError(null);
     setToast(null);
     setIsProcessingImages(false);
@@ -243,6 +365,12 @@ export default function App() {
 
   // Remove the full screen error and loading states
 
+  // Only the precisions the loaded device can run, or every one before a model has loaded
+  const currentDefinition = getModelDefinition(currentModel);
+  const variants = currentDefinition
+    ? getModelVariants(currentDefinition, modelInfo?.currentModelId === currentModel ? modelInfo.runtime?.device : undefined)
+    : [];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100" onPaste={handlePaste}>
       <nav className="fixed top-0 left-0 w-full bg-white/95 backdrop-blur-sm shadow-lg border-b border-gray-100 z-50">
@@ -284,21 +412,95 @@ export default function App() {
                   </span>
                 )}
               </button>
+              <button
+                onClick={() => setIsJobQueueOpen(true)}
+                className="bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 shadow-sm hover:shadow-md transition-shadow duration-200"
+                title="Batches, their jobs and Download all"
+              >
+                Jobs
+              </button>
               {!isIOS && (
                 <>
                   <span className="text-gray-600 font-medium">Model:</span>
                   <select
                     value={currentModel}
                     onChange={handleModelChange}
+                    title={getModelDefinition(currentModel)?.license}
                     className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 shadow-sm hover:shadow-md transition-shadow duration-200"
                   >
-                    <option value="briaai/RMBG-1.4">RMBG-1.4 (Cross-browser)</option>
-                    {isWebGPU && (
-                      <option value="Xenova/modnet">MODNet (WebGPU)</option>
-                    )}
+                    {listModels(isWebGPU ? ["wasm", "webgpu"] : ["wasm"]).map(model => (
+                      <option key={model.id} value={model.id}>{model.label}</option>
+                    ))}
                   </select>
+                  {variants.length > 1 && (
+                    <select
+                      value={currentDtype ?? variants[0].dtype}
+                      onChange={handleVariantChange}
+                      title="Precision of the model weights"
+                      className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 shadow-sm hover:shadow-md transition-shadow duration-200"
+                    >
+                      {variants.map(variant => (
+                        <option key={variant.dtype} value={variant.dtype}>
+                          {variant.dtype} · ~{variant.sizeMB} MB · {variant.tradeoff}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </>
               )}
+              <label
+                className="flex items-center gap-2 text-sm text-gray-700"
+                title="Refines edges of large images tile by tile; much slower"
+              >
+                <input
+                  type="checkbox"
+                  checked={isHighResolution}
+                  onChange={(e) => setIsHighResolution(e.target.checked)}
+                />
+                High resolution
+              </label>
+              <select
+                value={mattingMethod ?? ''}
+                onChange={(e) => setMattingMethod((e.target.value || null) as MattingMethod | null)}
+                title="Refine mask edges using the photo; helps with hair, fur and sheer fabric"
+                className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 shadow-sm hover:shadow-md transition-shadow duration-200"
+              >
+                <option value="">No edge refinement</option>
+                <option value="guided">Guided filter edges</option>
+                <option value="trimap">Trimap matting edges</option>
+              </select>
+              <label
+                className="flex items-center gap-2 text-sm text-gray-700"
+                title="Smooths masks over time when you drop a numbered frame sequence (frame_001.png, ...); reduces edge flicker"
+              >
+                <input
+                  type="checkbox"
+                  checked={isTemporalSmoothing}
+                  onChange={(e) => setIsTemporalSmoothing(e.target.checked)}
+                />
+                Smooth sequences
+              </label>
+              {isTemporalSmoothing && (
+                <label className="flex items-center gap-2 text-sm text-gray-700" title="How strongly each frame's mask leans on the previous ones">
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={temporalStrength}
+                    onChange={(e) => setTemporalStrength(Number(e.target.value))}
+                    className="w-24"
+                  />
+                  <span className="w-9 text-right text-gray-500">{Math.round(temporalStrength * 100)}%</span>
+                </label>
+              )}
+              <button
+                onClick={() => setIsModelSettingsOpen(true)}
+                className="bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 shadow-sm hover:shadow-md transition-shadow duration-200"
+                title="Model source and offline downloads"
+              >
+                Offline models
+              </button>
             </div>
           </div>
           {isIOS && (
@@ -306,6 +508,17 @@ export default function App() {
               Using optimized iOS background removal
             </p>
           )}
+          {modelInfo?.runtime && (
+            <p className="text-sm text-gray-500 mt-2">
+              Running on {modelInfo.runtime.device === 'webgpu' ? 'WebGPU' : 'WASM'}
+              {modelInfo.runtime.dtype && `, ${modelInfo.runtime.dtype}`}
+              {modelInfo.runtime.numThreads !== undefined &&
+                `, ${modelInfo.runtime.numThreads} ${modelInfo.runtime.numThreads === 1 ? 'thread' : 'threads'}`}
+              {modelInfo.fallbacks.length > 0 && (
+                <span className="block text-amber-600">{modelInfo.fallbacks.join('; ')}</span>
+              )}
+            </p>
+          )}
         </div>
       </nav>
 
@@ -402,7 +615,7 @@ export default function App() {
                     <p className="text-lg text-gray-600 font-medium animate-pulse">
                       {isModelSwitching ? 'Switching models...' : 'Loading background removal model...'}
                     </p>
-                    <p className="text-sm text-gray-400">This may take a moment on first load</p>
+                    <ModelLoadStatus />
                   </>
                 ) : error ? (
                   <>
@@ -412,11 +625,12 @@ export default function App() {
                       </svg>
                     </div>
                     <p className="text-lg text-red-600 font-medium mb-2">{error.message}</p>
-                    {currentModel === 'Xenova/modnet' && (
+                    {currentModel !== DEFAULT_MODEL_ID && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleModelChange({ target: { value: 'briaai/RMBG-1.4' }} as any);
+                          setPreferredModelId(DEFAULT_MODEL_ID);
+                          switchModel(getPreferredModelOptions(DEFAULT_MODEL_ID));
                         }}
                         className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-all duration-200 transform hover:scale-105 shadow-lg hover:shadow-xl"
                       >
@@ -493,6 +707,8 @@ export default function App() {
               images={images}
               onDelete={(id) => setImages(prev => prev.filter(img => img.id !== id))}
               onEdit={handleImageEdit}
+              onCancel={handleCancelImage}
+              onRetry={handleRetryImage}
             />
           </div>
         </div>
@@ -504,6 +720,12 @@ export default function App() {
         onClose={() => setIsHistoryOpen(false)}
       />
 
+      {/* Job Queue Modal, where finished batches can be downloaded as a ZIP */}
+      <JobQueue
+        isOpen={isJobQueueOpen}
+        onClose={() => setIsJobQueueOpen(false)}
+      />
+
       {/* Toast Notification */}
       {toast && (
         <Toast
@@ -512,6 +734,12 @@ export default function App() {
           onClose={() => setToast(null)}
         />
       )}
+
+      {/* Model source and offline downloads */}
+      {isModelSettingsOpen && <ModelSettings onClose={() => setIsModelSettingsOpen(false)} />}
+
+      {/* Storage warnings and other in-app notifications */}
+      <NotificationCenter position="bottom-right" />
     </div>
   );
 }
@@ -1,9 +1,49 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { saveAs } from 'file-saver';
 import { JobBatch, ProcessingJob } from '../types';
 import { ProgressBar, CircularProgress } from './ProgressBar';
 import { JobCard } from './JobCard';
 import { formatTimeRemaining, formatRelativeTime, formatDuration } from '../utils/formatters';
 import { useBatchProgress } from '../hooks/useJobProgress';
+import { exportBatchArchive, getBatchArchiveName, saveBatchArchive } from '../services/batchExport';
+import { showInAppNotification } from '../services/notificationService';
+
+// The File System Access API's save dialog, where the browser has it; it isn't in lib.dom yet
+type WindowWithSavePicker = Window & {
+  showSaveFilePicker?: (options: {
+    suggestedName: string;
+    types: Array<{ description: string; accept: Record<string, string[]> }>;
+  }) => Promise<FileSystemFileHandle>;
+};
+
+/**
+ * Stream the batch's ZIP into a file the user picks, or build it in memory and
+ * download it where the browser can't write files. Resolves with how many jobs
+ * had no result, or null if the user closed the save dialog.
+ */
+async function downloadBatchArchive(batch: JobBatch, onProgress: (percent: number) => void): Promise<number | null> {
+  const picker = window as WindowWithSavePicker;
+  if (!picker.showSaveFilePicker) {
+    const { archive, fileName, reported } = await exportBatchArchive(batch.id, undefined, onProgress);
+    saveAs(archive, fileName);
+    return reported;
+  }
+
+  let handle: FileSystemFileHandle;
+  try {
+    // Asked for first, while the click still counts as user activation
+    handle = await picker.showSaveFilePicker({
+      suggestedName: getBatchArchiveName(batch.name),
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+
+  const { reported } = await saveBatchArchive(batch.id, await handle.createWritable(), undefined, onProgress);
+  return reported;
+}
 
 interface BatchCardProps {
   batch: JobBatch;
@@ -25,6 +65,30 @@ export function BatchCard({
   onToggleExpanded
 }: BatchCardProps) {
   const { jobs, isLoading } = useBatchProgress(batch.id);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+
+  const handleDownloadAll = async () => {
+    setDownloadProgress(0);
+    try {
+      const reported = await downloadBatchArchive(batch, setDownloadProgress);
+
+      if (reported) {
+        showInAppNotification({
+          type: 'warning',
+          title: 'Some images were not included',
+          message: `${reported} ${reported === 1 ? 'image has' : 'images have'} no result; see report.csv in the download`
+        });
+      }
+    } catch (error) {
+      showInAppNotification({
+        type: 'error',
+        title: 'Download failed',
+        message: error instanceof Error ? error.message : 'Failed to export batch'
+      });
+    } finally {
+      setDownloadProgress(null);
+    }
+  };
 
   const getStatusIcon = () => {
     switch (batch.status) {
@@ -106,6 +170,7 @@ export function BatchCard({
   };
 
   const canCancel = batch.status === 'pending' || batch.status === 'processing';
+  const canDownload = !canCancel && batch.completedJobs > 0;
   const hasJobs = batch.totalJobs > 0;
 
   return (
@@ -167,6 +232,15 @@ export function BatchCard({
                 </svg>
               </button>
             )}
+            {canDownload && (
+              <button
+                onClick={handleDownloadAll}
+                disabled={downloadProgress !== null}
+                className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 disabled:opacity-50 rounded-md border border-blue-200"
+              >
+                {downloadProgress !== null ? `Zipping ${Math.round(downloadProgress)}%` : 'Download all'}
+              </button>
+            )}
             {canCancel && (
               <button
                 onClick={() => onCancelBatch?.(batch.id)}
@@ -1,11 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { ImageFile } from "../App";
+import type { EditState } from '../types';
+import { estimateForegroundColors } from '../../lib/matting';
 
 interface EditModalProps {
   image: ImageFile;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (url: string) => void;
+  onSave: (url: string, editState: EditState) => void;
 }
 
 const backgroundOptions = [
@@ -25,12 +27,34 @@ const predefinedColors = [
   '#ffff00', '#00ffff', '#ff00ff', '#808080', '#c0c0c0'
 ];
 
-const predefinedPatterns = [
-  { id: 'dots', label: 'Dots' },
-  { id: 'lines', label: 'Lines' },
-  { id: 'grid', label: 'Grid' },
-  { id: 'waves', label: 'Waves' }
-];
+/**
+ * The cutout with the old background's colour taken out of its semi-transparent
+ * edges. Colours come from the original photo, as the cutout has none left
+ * where it is fully transparent.
+ */
+async function cleanEdgeColors(original: File, cutout: HTMLImageElement): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = cutout.width;
+  canvas.height = cutout.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get 2d context');
+
+  ctx.drawImage(cutout, 0, 0);
+  const { data: alpha } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const bitmap = await createImageBitmap(original);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < imageData.data.length; i += 4) {
+    imageData.data[i] = alpha[i];
+  }
+  estimateForegroundColors(imageData.data, canvas.width, canvas.height);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
 
 export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
   const [bgType, setBgType] = useState('color');
@@ -42,6 +66,9 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
   const [contrastValue, setContrastValue] = useState(50);
   const [exportUrl, setExportUrl] = useState('');
   const [showCustomColorPicker, setShowCustomColorPicker] = useState(false);
+  const [cleanEdges, setCleanEdges] = useState(false);
+  // Estimating colours is slow, so it runs once per modal rather than on every change
+  const cleanedCutout = useRef<Promise<HTMLCanvasElement> | null>(null);
 
   const processedURL = (image.originalProcessedFile || image.processedFile) ? URL.createObjectURL(image.originalProcessedFile || image.processedFile!) : '';
 
@@ -49,7 +76,7 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
     if (image.originalProcessedFile || image.processedFile) {
       applyChanges();
     }
-  }, [bgType, bgColor, customBgImage, selectedEffect, blurValue, brightnessValue, contrastValue]);
+  }, [bgType, bgColor, customBgImage, selectedEffect, blurValue, brightnessValue, contrastValue, cleanEdges]);
 
   const getCurrentEffectValue = () => {
     switch (selectedEffect) {
@@ -105,7 +132,18 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
     }
     
     // Draw the processed image
-    ctx.drawImage(img, 0, 0);
+    if (cleanEdges) {
+      cleanedCutout.current ??= cleanEdgeColors(image.file, img);
+      try {
+        ctx.drawImage(await cleanedCutout.current, 0, 0);
+      } catch (error) {
+        console.error('Error cleaning edge colours:', error);
+        cleanedCutout.current = null;
+        ctx.drawImage(img, 0, 0);
+      }
+    } else {
+      ctx.drawImage(img, 0, 0);
+    }
     
     // Apply effects
     if (selectedEffect !== 'none') {
@@ -113,7 +151,7 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
       const data = imageData.data;
       
       switch (selectedEffect) {
-        case 'blur':
+        case 'blur': {
           // Create a temporary canvas for blur effect
           const tempCanvas = document.createElement('canvas');
           const tempCtx = tempCanvas.getContext('2d');
@@ -133,6 +171,7 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
           ctx.drawImage(tempCanvas, 0, 0);
           ctx.filter = 'none';
           break;
+        }
           
         case 'brightness':
           for (let i = 0; i < data.length; i += 4) {
@@ -143,7 +182,7 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
           ctx.putImageData(imageData, 0, 0);
           break;
           
-        case 'contrast':
+        case 'contrast': {
           const factor = (259 * (contrastValue + 255)) / (255 * (259 - contrastValue));
           for (let i = 0; i < data.length; i += 4) {
             data[i] = factor * (data[i] - 128) + 128;
@@ -152,6 +191,7 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
           }
           ctx.putImageData(imageData, 0, 0);
           break;
+        }
       }
     }
     
@@ -181,7 +221,15 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
     }
 
     if (imageToSave) {
-      onSave(imageToSave);
+      onSave(imageToSave, {
+        bgType,
+        bgColor,
+        effect: selectedEffect,
+        blur: blurValue,
+        brightness: brightnessValue,
+        contrast: contrastValue,
+        cleanEdges
+      });
     }
     onClose();
   };
@@ -288,6 +336,19 @@ export function EditModal({ image, isOpen, onClose, onSave }: EditModalProps) {
               )}
             </div>
 
+            <label
+              className="flex items-center gap-2 text-sm text-gray-700"
+              title="Removes fringes and halos the old background left on semi-transparent edges"
+            >
+              <input
+                type="checkbox"
+                checked={cleanEdges}
+                onChange={(e) => setCleanEdges(e.target.checked)}
+                onClick={(e) => e.stopPropagation()}
+              />
+              Clean edge colours
+            </label>
+
             <div>
               <h3 className="font-medium text-gray-700 mb-2">Effects</h3>
               <div className="flex gap-2 mb-4">
@@ -1,15 +1,26 @@
-import { useState, useEffect, useRef } from 'react';
-import { ImageHistoryItem } from '../types';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { saveAs } from 'file-saver';
+import { ImageHistoryItem, EditState } from '../types';
 import { LazyImage } from './LazyImage';
 import { EditModal } from './EditModal';
+import { StorageSettings } from './StorageSettings';
 import type { ImageFile } from '../App';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import { MaskDownload } from './MaskDownload';
+import { showInAppNotification } from '../services/notificationService';
+import { exportHistoryArchive, importHistoryArchive } from '../services/historyArchive';
 import {
-  getImageHistory,
+  queryImageHistory,
+  countImageHistory,
   deleteImageFromHistory,
   clearImageHistory,
   getHistoryStats,
-  base64ToFile,
-  updateImageInHistory
+  getThumbnails,
+  blobToFile,
+  updateImageInHistory,
+  markImageViewed,
+  HistoryCursor,
+  HistoryQuery
 } from '../services/historyService';
 
 interface HistoryGalleryProps {
@@ -17,8 +28,14 @@ interface HistoryGalleryProps {
   onClose: () => void;
 }
 
+const DATE_FILTER_WINDOWS: Record<string, number> = {
+  'today': 24 * 60 * 60 * 1000,
+  'week': 7 * 24 * 60 * 60 * 1000,
+  'month': 30 * 24 * 60 * 60 * 1000,
+  'year': 365 * 24 * 60 * 60 * 1000
+};
+
 export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
-  const [historyItems, setHistoryItems] = useState<ImageHistoryItem[]>([]);
   const [displayedItems, setDisplayedItems] = useState<ImageHistoryItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [stats, setStats] = useState({ totalImages: 0, totalSize: 0 });
@@ -26,59 +43,112 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
   const [selectedImage, setSelectedImage] = useState<ImageHistoryItem | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filteredItems, setFilteredItems] = useState<ImageHistoryItem[]>([]);
+  const [resultCount, setResultCount] = useState(0);
   const [dateFilter, setDateFilter] = useState<string>('all');
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingImage, setEditingImage] = useState<ImageFile | null>(null);
+  const [thumbnails, setThumbnails] = useState<Map<number, Blob>>(new Map());
+  const [reloadToken, setReloadToken] = useState(0);
+  const [showStorageSettings, setShowStorageSettings] = useState(false);
+  const [archiveProgress, setArchiveProgress] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const itemsPerPage = 12;
   const modalRef = useRef<HTMLDivElement>(null);
+  // pageCursors[n] is where page n + 1 starts; page 1 starts at the beginning
+  const pageCursors = useRef<Array<HistoryCursor | undefined>>([undefined]);
+  const cursorQuery = useRef<HistoryQuery | null>(null);
+  const selectedImageUrl = useObjectUrl(selectedImage?.processedImage);
+  const totalPages = Math.max(1, Math.ceil(resultCount / itemsPerPage));
+
+  const historyQuery = useMemo<HistoryQuery>(() => {
+    const range = DATE_FILTER_WINDOWS[dateFilter];
+    return {
+      searchTerm: searchTerm || undefined,
+      from: range ? Date.now() - range : undefined
+    };
+  }, [searchTerm, dateFilter]);
 
   useEffect(() => {
     if (isOpen) {
-      loadHistory();
       // Reset modal states when history opens
       setIsEditModalOpen(false);
       setEditingImage(null);
       setSelectedImage(null); // Clear full-size image state
       setShowClearConfirm(false); // Clear confirmation dialog state
+      setShowStorageSettings(false);
     }
   }, [isOpen]);
 
+  // Totals and result count
   useEffect(() => {
-    let filtered = historyItems.filter(item =>
-      item.originalFileName.toLowerCase().includes(searchTerm.toLowerCase())
-    );
+    if (!isOpen) return;
+
+    let cancelled = false;
+    Promise.all([getHistoryStats(), countImageHistory(historyQuery)])
+      .then(([statistics, count]) => {
+        if (cancelled) return;
+        setStats(statistics);
+        setResultCount(count);
+      })
+      .catch((error) => console.error('Error loading history stats:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, historyQuery, reloadToken]);
 
-    // Apply date filter
-    if (dateFilter !== 'all') {
-      const now = Date.now();
-      const filterTime = {
-        'today': 24 * 60 * 60 * 1000,
-        'week': 7 * 24 * 60 * 60 * 1000,
-        'month': 30 * 24 * 60 * 60 * 1000,
-        'year': 365 * 24 * 60 * 60 * 1000
-      }[dateFilter];
-
-      if (filterTime) {
-        filtered = filtered.filter(item => now - item.timestamp <= filterTime);
+  // The current page, read through the index rather than loading everything
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Cursors only make sense for the query that produced them; start over when filters change
+    if (cursorQuery.current !== historyQuery) {
+      cursorQuery.current = historyQuery;
+      pageCursors.current = [undefined];
+      if (currentPage !== 1) {
+        setCurrentPage(1);
+        return;
       }
     }
 
-    setFilteredItems(filtered);
-    setCurrentPage(1); // Reset to first page when filters change
-  }, [historyItems, searchTerm, dateFilter]);
+    let cancelled = false;
+    setLoading(true);
+    queryImageHistory(historyQuery, pageCursors.current[currentPage - 1], itemsPerPage)
+      .then((page) => {
+        if (cancelled) return;
+        pageCursors.current[currentPage] = page.nextCursor;
+        setDisplayedItems(page.items);
+      })
+      .catch((error) => console.error('Error loading history:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
 
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, historyQuery, currentPage, reloadToken]);
+  // Load thumbnails for the visible page only; full images are read when one is opened
   useEffect(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    setDisplayedItems(filteredItems.slice(startIndex, endIndex));
-  }, [filteredItems, currentPage]);
+    if (displayedItems.length === 0) return;
+
+    let cancelled = false;
+    getThumbnails(displayedItems)
+      .then((pageThumbnails) => {
+        if (!cancelled) setThumbnails(pageThumbnails);
+      })
+      .catch((error) => console.error('Error loading thumbnails:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [displayedItems]);
 
   // Handle click outside to close modal
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       // Don't close if any modal is open
-      if (isEditModalOpen || selectedImage || showClearConfirm) {
+      if (isEditModalOpen || selectedImage || showClearConfirm || showStorageSettings) {
         return;
       }
 
@@ -94,33 +164,24 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [isOpen, onClose, isEditModalOpen, selectedImage, showClearConfirm]);
+  }, [isOpen, onClose, isEditModalOpen, selectedImage, showClearConfirm, showStorageSettings]);
 
-  const loadHistory = async () => {
-    setLoading(true);
-    try {
-      const [items, statistics] = await Promise.all([
-        getImageHistory(),
-        getHistoryStats()
-      ]);
-      setHistoryItems(items);
-      setStats(statistics);
-    } catch (error) {
-      console.error('Error loading history:', error);
-    } finally {
-      setLoading(false);
-    }
+  // Re-run the current page and count queries after a write
+  const loadHistory = () => setReloadToken(token => token + 1);
+
+  const openImage = (item: ImageHistoryItem) => {
+    setSelectedImage(item);
+    if (item.id) markImageViewed(item.id);
   };
 
   const handleDeleteImage = async (id: number) => {
     try {
       await deleteImageFromHistory(id);
-      await loadHistory(); // Refresh the list
-      // Reset to first page if current page becomes empty
-      const newTotalPages = Math.ceil((historyItems.length - 1) / itemsPerPage);
-      if (currentPage > newTotalPages && newTotalPages > 0) {
-        setCurrentPage(newTotalPages);
+      // Step back a page if this was the last item on it
+      if (displayedItems.length === 1 && currentPage > 1) {
+        setCurrentPage(currentPage - 1);
       }
+      loadHistory(); // Refresh the list
     } catch (error) {
       console.error('Error deleting image:', error);
     }
@@ -129,8 +190,9 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
   const handleClearAll = async () => {
     try {
       await clearImageHistory();
-      setHistoryItems([]);
+      pageCursors.current = [undefined];
       setDisplayedItems([]);
+      setResultCount(0);
       setStats({ totalImages: 0, totalSize: 0 });
       setCurrentPage(1);
       setShowClearConfirm(false);
@@ -142,13 +204,14 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
 
 
   const handleEdit = (item: ImageHistoryItem) => {
-    const originalFile = base64ToFile(
-      item.originalImageData,
+    if (item.id) markImageViewed(item.id);
+    const originalFile = blobToFile(
+      item.originalImage,
       item.originalFileName,
       item.metadata.type
     );
-    const processedFile = base64ToFile(
-      item.processedImageData,
+    const processedFile = blobToFile(
+      item.processedImage,
       `${item.originalFileName.split('.')[0]}-bg-removed.png`,
       'image/png'
     );
@@ -164,15 +227,16 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
     setIsEditModalOpen(true);
   };
 
-  const handleEditSave = async (editedImageUrl: string) => {
+  const handleEditSave = async (editedImageUrl: string, editState: EditState) => {
     if (!editingImage) return;
 
     try {
       // Update the image in history with the edited version
-      await updateImageInHistory(editingImage.id, editedImageUrl);
+      const editedImage = await (await fetch(editedImageUrl)).blob();
+      await updateImageInHistory(editingImage.id, editedImage, editState);
 
       // Reload the history to show the updated image
-      await loadHistory();
+      loadHistory();
 
       // Close the modal
       setIsEditModalOpen(false);
@@ -212,13 +276,52 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
     });
   };
 
-  const downloadImage = (imageData: string, filename: string) => {
-    const link = document.createElement('a');
-    link.href = imageData;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleExport = async () => {
+    setArchiveProgress('Preparing export...');
+    try {
+      const archive = await exportHistoryArchive((done, total) =>
+        setArchiveProgress(`Exporting ${done} of ${total}...`)
+      );
+      saveAs(archive, `bg-remover-history-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      showInAppNotification({
+        type: 'error',
+        title: 'Export failed',
+        message: error instanceof Error ? error.message : 'Failed to export history'
+      });
+    } finally {
+      setArchiveProgress(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setArchiveProgress('Reading archive...');
+    try {
+      const { imported, duplicates, failed } = await importHistoryArchive(file, (done, total) =>
+        setArchiveProgress(`Importing ${done} of ${total}...`)
+      );
+      const skipped = [
+        duplicates > 0 && `${duplicates} already in history`,
+        failed > 0 && `${failed} could not be imported`
+      ].filter(Boolean).join(', ');
+
+      showInAppNotification({
+        type: failed > 0 ? 'warning' : 'success',
+        title: 'History imported',
+        message: `Imported ${imported} ${imported === 1 ? 'image' : 'images'}${skipped ? ` (${skipped})` : ''}`
+      });
+      pageCursors.current = [undefined];
+      setCurrentPage(1);
+      loadHistory();
+    } catch (error) {
+      showInAppNotification({
+        type: 'error',
+        title: 'Import failed',
+        message: error instanceof Error ? error.message : 'Failed to import history'
+      });
+    } finally {
+      setArchiveProgress(null);
+    }
   };
 
   if (!isOpen) return null;
@@ -235,7 +338,7 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
                 {stats.totalImages} images • {formatFileSize(stats.totalSize)} total
                 {(searchTerm || dateFilter !== 'all') && (
                   <span className="ml-2">
-                    • Showing {filteredItems.length} results
+                    • Showing {resultCount} results
                     {dateFilter !== 'all' && (
                       <span className="ml-1">({getDateFilterLabel(dateFilter)})</span>
                     )}
@@ -292,6 +395,51 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
 
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
             <div className="flex items-center gap-3">
+              {archiveProgress && (
+                <span className="text-sm text-blue-100">{archiveProgress}</span>
+              )}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = ''; // Allow picking the same file again
+                  if (file) handleImport(file);
+                }}
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={archiveProgress !== null}
+                className="px-3 sm:px-4 py-2 bg-white bg-opacity-20 hover:bg-opacity-30 disabled:opacity-50 text-white rounded-lg transition-colors duration-200 flex items-center gap-2 smooth-transition hover-lift click-feedback"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                <span className="hidden sm:inline">Import</span>
+              </button>
+              {stats.totalImages > 0 && (
+                <button
+                  onClick={handleExport}
+                  disabled={archiveProgress !== null}
+                  className="px-3 sm:px-4 py-2 bg-white bg-opacity-20 hover:bg-opacity-30 disabled:opacity-50 text-white rounded-lg transition-colors duration-200 flex items-center gap-2 smooth-transition hover-lift click-feedback"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  <span className="hidden sm:inline">Export history</span>
+                </button>
+              )}
+              <button
+                onClick={() => setShowStorageSettings(true)}
+                className="px-3 sm:px-4 py-2 bg-white bg-opacity-20 hover:bg-opacity-30 text-white rounded-lg transition-colors duration-200 flex items-center gap-2 smooth-transition hover-lift click-feedback"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+                </svg>
+                <span className="hidden sm:inline">Storage</span>
+              </button>
               {stats.totalImages > 0 && (
                 <button
                   onClick={() => setShowClearConfirm(true)}
@@ -321,7 +469,7 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
             <div className="flex items-center justify-center py-12">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
             </div>
-          ) : historyItems.length === 0 ? (
+          ) : stats.totalImages === 0 ? (
             <div className="text-center py-12">
               <svg className="w-16 h-16 text-gray-300 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -329,7 +477,7 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
               <h3 className="text-lg font-medium text-gray-900 mb-2">No images in history</h3>
               <p className="text-gray-500">Process some images to see them appear here</p>
             </div>
-          ) : filteredItems.length === 0 ? (
+          ) : resultCount === 0 ? (
             <div className="text-center py-12">
               <svg className="w-16 h-16 text-gray-300 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -353,14 +501,14 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
                 >
                   <div className="relative group aspect-square bg-gray-50">
                     <LazyImage
-                      src={item.processedImageData}
+                      src={thumbnails.get(item.id!)}
                       alt={item.originalFileName}
                       className="w-full h-full object-contain cursor-pointer transition-transform duration-300 group-hover:scale-105"
-                      onClick={() => setSelectedImage(item)}
+                      onClick={() => openImage(item)}
                     />
                     <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-all duration-300 rounded-t-xl flex items-end justify-center pb-4">
                       <button
-                        onClick={() => setSelectedImage(item)}
+                        onClick={() => openImage(item)}
                         className="bg-white/90 backdrop-blur-sm text-gray-800 px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 transform translate-y-2 group-hover:translate-y-0 shadow-lg hover:shadow-xl"
                       >
                         <svg className="w-4 h-4 inline mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -408,7 +556,7 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
                         <span>Edit</span>
                       </button>
                       <button
-                        onClick={() => downloadImage(item.processedImageData, `${item.originalFileName.split('.')[0]}-processed.png`)}
+                        onClick={() => saveAs(item.processedImage, `${item.originalFileName.split('.')[0]}-processed.png`)}
                         className="px-3 py-2.5 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white text-xs font-medium rounded-lg transition-all duration-200 smooth-transition hover-lift click-feedback shadow-md hover:shadow-lg"
                         title="Download image"
                       >
@@ -433,7 +581,7 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
           )}
 
           {/* Pagination */}
-          {filteredItems.length > itemsPerPage && (
+          {resultCount > itemsPerPage && (
             <div className="flex justify-center items-center mt-8 gap-2">
               <button
                 onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
@@ -446,17 +594,17 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
               </button>
 
               <span className="px-4 py-2 text-sm text-gray-600">
-                Page {currentPage} of {Math.ceil(filteredItems.length / itemsPerPage)}
+                Page {currentPage} of {totalPages}
                 {searchTerm && (
                   <span className="text-blue-600 ml-2">
-                    ({filteredItems.length} of {historyItems.length} images)
+                    ({resultCount} of {stats.totalImages} images)
                   </span>
                 )}
               </span>
 
               <button
-                onClick={() => setCurrentPage(prev => Math.min(Math.ceil(filteredItems.length / itemsPerPage), prev + 1))}
-                disabled={currentPage === Math.ceil(filteredItems.length / itemsPerPage)}
+                onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                disabled={currentPage >= totalPages || !pageCursors.current[currentPage]}
                 className="px-3 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 smooth-transition hover-lift click-feedback"
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -506,6 +654,17 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
         </div>
       )}
 
+      {showStorageSettings && (
+        <StorageSettings
+          onClose={() => setShowStorageSettings(false)}
+          onEvicted={() => {
+            pageCursors.current = [undefined];
+            setCurrentPage(1);
+            loadHistory();
+          }}
+        />
+      )}
+
       {/* Full Size Image Modal */}
       {selectedImage && (
         <div
@@ -535,7 +694,7 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
               onClick={(e) => e.stopPropagation()}
             >
               <img
-                src={selectedImage.processedImageData}
+                src={selectedImageUrl}
                 alt={selectedImage.originalFileName}
                 className="max-w-full max-h-full object-contain rounded-lg shadow-2xl"
                 onClick={(e) => e.stopPropagation()}
@@ -563,7 +722,7 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
               <button
                 onClick={(e) => {
                   e.stopPropagation();
-                  downloadImage(selectedImage.processedImageData, `${selectedImage.originalFileName.split('.')[0]}-processed.png`);
+                  saveAs(selectedImage.processedImage, `${selectedImage.originalFileName.split('.')[0]}-processed.png`);
                 }}
                 className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-all duration-200 flex items-center gap-2 shadow-lg"
               >
@@ -572,6 +731,15 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
                 </svg>
                 Download
               </button>
+              {selectedImage.mask && (
+                <MaskDownload
+                  mask={selectedImage.mask}
+                  baseName={selectedImage.originalFileName.split('.')[0]}
+                  className="bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg transition-all duration-200 flex items-center gap-2 shadow-lg"
+                >
+                  Mask
+                </MaskDownload>
+              )}
               <button
                 onClick={(e) => {
                   e.stopPropagation();
@@ -1,23 +1,34 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { saveAs } from "file-saver";
 import type { ImageFile } from "../App";
 import { EditModal } from "./EditModal";
+import { VideoBackground, isVideoFile, isVideoProcessingSupported } from "../../lib/video";
+import { isAbortError } from "../../lib/process";
+import { processFileWithJob } from "../services/jobProcessor";
+import { createJobBatch, jobEventEmitter } from "../services/jobService";
+import { MaskDownload } from "./MaskDownload";
+
+// Checkerboard shown behind transparent results
+const transparentBg = `url("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQBAMAAADt3eJSAAAAAXNSR0IArs4c6QAAAARnQU1BAACxjwv8YQUAAAAGUExURb+/v////5nD/3QAAAAJcEhZcwAADsMAAA7DAcdvqGQAAAAUSURBVBjTYwABQSCglEENMxgYGAAynwRB8BEAgQAAAABJRU5ErkJggg==")`;
 
 interface ImagesProps {
   images: ImageFile[];
   onDelete: (id: number) => void;
   onEdit: (id: number, editedImageUrl: string) => void;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
 }
 
-export function Images({ images, onDelete, onEdit }: ImagesProps) {
+export function Images({ images, onDelete, onEdit, onCancel, onRetry }: ImagesProps) {
   return (
     <div>
       <h2 className="hidden text-gray-800 text-xl font-semibold mb-4">Images: {images.length}</h2>
       <div className="gap-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
         {images.map((image) => {
-          if(image.file.type.includes("video")) {
+          if (isVideoFile(image.file)) {
             return <Video video={image} key={image.id} />;
           } else {
-            return <ImageSpot image={image} onDelete={onDelete} onEdit={onEdit} key={image.id} />;
+            return <ImageSpot image={image} onDelete={onDelete} onEdit={onEdit} onCancel={onCancel} onRetry={onRetry} key={image.id} />;
           }
         })}
       </div>
@@ -25,17 +36,183 @@ export function Images({ images, onDelete, onEdit }: ImagesProps) {
   );
 }
 
+type VideoBackgroundType = VideoBackground["type"];
+
 function Video({ video }: { video: ImageFile }) {
-  const url = URL.createObjectURL(video.file);
+  const [backgroundType, setBackgroundType] = useState<VideoBackgroundType>("transparent");
+  const [backgroundColor, setBackgroundColor] = useState("#ffffff");
+  const [backgroundImage, setBackgroundImage] = useState<File | null>(null);
+  const [smoothing, setSmoothing] = useState(0); // Off unless asked for, as for image sequences
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<File | null>(video.processedFile ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const url = useMemo(() => URL.createObjectURL(video.file), [video.file]);
+  const resultURL = useMemo(() => (result ? URL.createObjectURL(result) : ""), [result]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+  useEffect(() => () => { if (resultURL) URL.revokeObjectURL(resultURL); }, [resultURL]);
+
+  // Stop the job if the card goes away mid-way
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isProcessing = progress !== null;
+
+  const handleProcess = async () => {
+    let background: VideoBackground = { type: "transparent" };
+    if (backgroundType === "color") {
+      background = { type: "color", color: backgroundColor };
+    } else if (backgroundType === "image") {
+      if (!backgroundImage) {
+        setError("Choose a background image first");
+        return;
+      }
+      background = { type: "image", image: backgroundImage };
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setResult(null);
+    setProgress(0);
+
+    const batchId = await createJobBatch(`Video: ${video.file.name}`);
+    const offBatchUpdate = jobEventEmitter.onBatchUpdate(update => {
+      if (update.batchId === batchId) setProgress(update.progress);
+    });
+
+    try {
+      const { processedFile } = await processFileWithJob(video.file, batchId, {
+        signal: controller.signal,
+        video: { background },
+        temporal: smoothing > 0 ? { strength: smoothing } : undefined
+      });
+      setResult(processedFile ?? null);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : "Failed to process video");
+      }
+    } finally {
+      offBatchUpdate();
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (result) saveAs(result, result.name);
+  };
+
   return (
-    <div className="bg-white rounded-lg shadow-md p-3">
-      <video
-        className="rounded-lg aspect-square object-cover"
-        loop
-        muted
-        autoPlay
-        src={url}
-      ></video>
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div
+        className="relative"
+        style={result ? { background: transparentBg, backgroundRepeat: "repeat" } : undefined}
+      >
+        <video
+          className={`w-full aspect-square object-cover ${isProcessing ? "opacity-50" : ""}`}
+          loop
+          muted
+          autoPlay
+          playsInline
+          src={resultURL || url}
+        ></video>
+        {isProcessing && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="bg-black bg-opacity-50 px-4 py-2 rounded-lg">
+              <div className="inline-block animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white mr-2"></div>
+              <span className="text-white font-medium">Processing {Math.round(progress)}%</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 border-t border-gray-100 space-y-2">
+        {!isVideoProcessingSupported() ? (
+          <p className="text-sm text-gray-600">
+            Video background removal needs a browser with WebCodecs support.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <select
+                value={backgroundType}
+                onChange={(e) => setBackgroundType(e.target.value as VideoBackgroundType)}
+                disabled={isProcessing}
+                className="flex-1 text-sm border border-gray-200 rounded-md px-2 py-1.5"
+              >
+                <option value="transparent">Transparent (WebM)</option>
+                <option value="color">Colour (MP4)</option>
+                <option value="image">Image (MP4)</option>
+              </select>
+              {backgroundType === "color" && (
+                <input
+                  type="color"
+                  value={backgroundColor}
+                  onChange={(e) => setBackgroundColor(e.target.value)}
+                  disabled={isProcessing}
+                  className="w-9 h-8 border border-gray-200 rounded-md"
+                  title="Background colour"
+                />
+              )}
+            </div>
+            {backgroundType === "image" && (
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => setBackgroundImage(e.target.files?.[0] ?? null)}
+                disabled={isProcessing}
+                className="block w-full text-sm text-gray-600"
+              />
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-700" title="Reduces flicker at the edges of the cutout">
+              Smoothing
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={smoothing}
+                onChange={(e) => setSmoothing(Number(e.target.value))}
+                disabled={isProcessing}
+                className="flex-1"
+              />
+              <span className="w-9 text-right text-gray-500">{smoothing > 0 ? `${Math.round(smoothing * 100)}%` : "Off"}</span>
+            </label>
+            <p className="text-xs text-gray-500">Audio is not kept in the processed video.</p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-center gap-2">
+              {isProcessing ? (
+                <button
+                  onClick={() => controllerRef.current?.abort()}
+                  className="px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors text-sm text-gray-700"
+                >
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  onClick={handleProcess}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+                >
+                  {result ? "Process again" : "Remove background"}
+                </button>
+              )}
+              {result && !isProcessing && (
+                <button
+                  onClick={handleDownload}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+                  title="Download"
+                >
+                  <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  <span className="text-sm text-gray-700">Download</span>
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -44,21 +221,22 @@ interface ImageSpotProps {
   image: ImageFile;
   onDelete: (id: number) => void;
   onEdit: (id: number, editedImageUrl: string) => void;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
 }
 
-function ImageSpot({ image, onDelete, onEdit }: ImageSpotProps) {
+function ImageSpot({ image, onDelete, onEdit, onCancel, onRetry }: ImageSpotProps) {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
 
   const url = URL.createObjectURL(image.file);
   const processedURL = image.processedFile ? URL.createObjectURL(image.processedFile) : "";
-  const isProcessing = !image.processedFile;
+  const isStopped = !image.processedFile && (image.status === "failed" || image.status === "cancelled");
+  const isProcessing = !image.processedFile && !isStopped;
 
   const handleEditSave = (editedImageUrl: string) => {
     onEdit(image.id, editedImageUrl);
   };
 
-  const transparentBg = `url("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQBAMAAADt3eJSAAAAAXNSR0IArs4c6QAAAARnQU1BAACxjwv8YQUAAAAGUExURb+/v////5nD/3QAAAAJcEhZcwAADsMAAA7DAcdvqGQAAAAUSURBVBjTYwABQSCglEENMxgYGAAynwRB8BEAgQAAAABJRU5ErkJggg==")`;
-
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden">
       <div className="relative">
@@ -75,6 +253,29 @@ function ImageSpot({ image, onDelete, onEdit }: ImageSpotProps) {
                 <span className="text-white font-medium">Processing...</span>
               </div>
             </div>
+            {image.jobId && (
+              <button
+                onClick={() => onCancel(image.jobId!)}
+                className="absolute bottom-3 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors text-sm text-gray-700"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        ) : isStopped ? (
+          <div className="relative">
+            <img
+              className="w-full aspect-square object-cover opacity-50"
+              src={url}
+              alt={`Unprocessed image ${image.id}`}
+            />
+            <div className="absolute inset-0 flex items-center justify-center p-4">
+              <div className="bg-black bg-opacity-50 px-4 py-2 rounded-lg text-center" title={image.error}>
+                <span className="text-white font-medium">
+                  {image.status === "cancelled" ? "Cancelled" : "Failed"}
+                </span>
+              </div>
+            </div>
           </div>
         ) : (
           <div 
@@ -93,7 +294,32 @@ function ImageSpot({ image, onDelete, onEdit }: ImageSpotProps) {
         )}
       </div>
 
-      {!isProcessing && (
+      {isStopped && (
+        <div className="p-3 border-t border-gray-100">
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => onDelete(image.id)}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+              title="Delete"
+            >
+              <svg className="w-4 h-4 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              <span className="text-sm text-gray-700">Delete</span>
+            </button>
+            {image.jobId && (
+              <button
+                onClick={() => onRetry(image.jobId!)}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!isProcessing && !isStopped && (
         <div className="p-3 border-t border-gray-100">
           <div className="flex justify-center gap-2">
             <button
@@ -127,6 +353,18 @@ function ImageSpot({ image, onDelete, onEdit }: ImageSpotProps) {
               </svg>
               <span className="text-sm text-gray-700">Download</span>
             </a>
+            {image.mask && (
+              <MaskDownload
+                mask={image.mask}
+                baseName={`processed-${image.id}`}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                <span className="text-sm text-gray-700">Mask</span>
+              </MaskDownload>
+            )}
           </div>
         </div>
       )}
@@ -64,7 +64,7 @@ export function JobCard({
   };
 
   const canCancel = job.status === 'pending' || job.status === 'processing';
-  const canRetry = job.status === 'failed';
+  const canRetry = job.status === 'failed' || job.status === 'cancelled';
   const canViewResult = job.status === 'completed' && job.processedFile;
 
   if (compact) {
@@ -241,6 +241,22 @@ export function JobCard({
             )}
           </div>
         )}
+
+        {/* Attempt History */}
+        {job.attemptLog.length > 0 && (
+          <details className="mt-2 text-xs text-gray-500">
+            <summary className="cursor-pointer">
+              Attempt {job.attempts}, {job.attemptLog.length} failed so far
+            </summary>
+            <ul className="mt-1 space-y-1">
+              {job.attemptLog.map((entry) => (
+                <li key={entry.attempt}>
+                  #{entry.attempt} at {new Date(entry.endTime).toLocaleTimeString()}: {entry.error}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
       </div>
     </div>
   );
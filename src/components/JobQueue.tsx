@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { JobBatch, ProcessingJob } from '../types';
+import { ProcessingJob } from '../types';
 import { BatchCard } from './BatchCard';
 import { JobCard } from './JobCard';
 import { SessionView, SessionSummary } from './SessionView';
 import { useJobProgress } from '../hooks/useJobProgress';
 import { requestNotificationPermission } from '../services/jobProcessor';
+import { getNamingTemplate, setNamingTemplate, DEFAULT_NAMING_TEMPLATE } from '../services/batchExport';
 
 interface JobQueueProps {
   isOpen: boolean;
@@ -20,13 +21,15 @@ export function JobQueue({ isOpen, onClose, onViewResult }: JobQueueProps) {
     isLoading,
     refreshData,
     cancelJob,
-    cancelBatch
+    cancelBatch,
+    retryJob
   } = useJobProgress();
 
   const [expandedBatches, setExpandedBatches] = useState<Set<string>>(new Set());
   const [showCompleted, setShowCompleted] = useState(false);
   const [viewMode, setViewMode] = useState<'batches' | 'sessions'>('batches');
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default');
+  const [namingTemplate, setNamingTemplateValue] = useState(getNamingTemplate);
 
   // Check notification permission on mount
   useEffect(() => {
@@ -53,8 +56,11 @@ export function JobQueue({ isOpen, onClose, onViewResult }: JobQueueProps) {
   };
 
   const handleRetryJob = async (jobId: string) => {
-    // TODO: Implement job retry functionality
-    console.log('Retry job:', jobId);
+    try {
+      await retryJob(jobId);
+    } catch (error) {
+      console.error('Failed to retry job:', error);
+    }
   };
 
   const displayedBatches = showCompleted ? allBatches : activeBatches;
@@ -151,6 +157,22 @@ export function JobQueue({ isOpen, onClose, onViewResult }: JobQueueProps) {
               />
               <span className="text-sm text-gray-700">Show completed</span>
             </label>
+
+            {/* ZIP Naming Template */}
+            <label className="flex items-center gap-2" title="Tokens: {name}, {batch}, {index}">
+              <span className="text-sm text-gray-700">ZIP names:</span>
+              <input
+                type="text"
+                value={namingTemplate}
+                placeholder={DEFAULT_NAMING_TEMPLATE}
+                onChange={(e) => setNamingTemplateValue(e.target.value)}
+                onBlur={() => {
+                  setNamingTemplate(namingTemplate);
+                  setNamingTemplateValue(getNamingTemplate());
+                }}
+                className="w-56 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
           </div>
 
           <div className="text-sm text-gray-600">
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { useObjectUrl } from '../hooks/useObjectUrl';
 
 interface LazyImageProps {
-  src: string;
+  src?: string | Blob; // Blobs get an object URL only once the image scrolls into view; a placeholder shows while unset
   alt: string;
   className?: string;
   onClick?: () => void;
@@ -13,6 +14,8 @@ export function LazyImage({ src, alt, className, onClick, placeholder }: LazyIma
   const [isInView, setIsInView] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const blobUrl = useObjectUrl(isInView && src instanceof Blob ? src : null);
+  const imageUrl = src instanceof Blob ? blobUrl : src;
 
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -56,10 +59,10 @@ export function LazyImage({ src, alt, className, onClick, placeholder }: LazyIma
         placeholder || defaultPlaceholder
       ) : null}
       
-      {isInView && (
+      {isInView && imageUrl && (
         <img
           ref={imgRef}
-          src={src}
+          src={imageUrl}
           alt={alt}
           onLoad={handleLoad}
           className={`${className} transition-opacity duration-300 ${
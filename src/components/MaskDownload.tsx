@@ -0,0 +1,158 @@
+import { useState, ReactNode } from 'react';
+import { saveAs } from 'file-saver';
+import { decodeMaskPng, encodeMaskPng, AlphaMask } from '../../lib/process';
+import { createClipPathSvg, createOutlineSvg } from '../../lib/contour';
+
+interface MaskDownloadProps {
+  mask: Blob; // Grayscale mask PNG
+  baseName: string; // Downloaded files are named after it
+  className?: string; // Styles the toggle button, so it can match its neighbours
+  children: ReactNode;
+}
+
+const DEFAULT_THRESHOLD = 128;
+const DEFAULT_TOLERANCE = 1;
+const DEFAULT_STROKE_WIDTH = 2;
+const DEFAULT_STROKE_COLOR = '#000000';
+
+export function MaskDownload({ mask, baseName, className, children }: MaskDownloadProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const [tolerance, setTolerance] = useState(DEFAULT_TOLERANCE);
+  const [offset, setOffset] = useState(0);
+  const [strokeWidth, setStrokeWidth] = useState(DEFAULT_STROKE_WIDTH);
+  const [strokeColor, setStrokeColor] = useState(DEFAULT_STROKE_COLOR);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Decodes the mask and saves whatever the export makes of it
+  const runExport = async (exportMask: (decoded: AlphaMask) => Blob | Promise<Blob>, fileName: string) => {
+    setIsExporting(true);
+    try {
+      saveAs(await exportMask(await decodeMaskPng(mask)), fileName);
+    } catch (error) {
+      console.error('Error exporting mask:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleBinaryDownload = () => runExport(
+    decoded => encodeMaskPng(decoded, threshold),
+    `${baseName}-mask-${threshold}.png`
+  );
+
+  const handleOutlineDownload = () => runExport(
+    decoded => new Blob(
+      [createOutlineSvg(decoded, { threshold, tolerance, offset, strokeWidth, stroke: strokeColor })],
+      { type: 'image/svg+xml' }
+    ),
+    `${baseName}-outline.svg`
+  );
+
+  const handleClipPathDownload = () => runExport(
+    decoded => new Blob(
+      [createClipPathSvg(decoded, { threshold, tolerance, offset, id: `${baseName}-clip` })],
+      { type: 'image/svg+xml' }
+    ),
+    `${baseName}-clip-path.svg`
+  );
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button onClick={() => setIsOpen(!isOpen)} className={className} title="Download mask">
+        {children}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 z-10 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2 text-sm text-gray-700">
+          <button
+            onClick={() => saveAs(mask, `${baseName}-mask.png`)}
+            className="block w-full text-left hover:text-blue-600"
+          >
+            Grayscale PNG
+          </button>
+          <div>
+            <button
+              onClick={handleBinaryDownload}
+              disabled={isExporting}
+              className="block w-full text-left hover:text-blue-600 disabled:opacity-50"
+            >
+              Binary PNG at {threshold}
+            </button>
+            <input
+              type="range"
+              min="1"
+              max="255"
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-full"
+              title="Mask values at or above this become opaque"
+            />
+          </div>
+
+          <div className="border-t border-gray-100 pt-2 space-y-1">
+            <label className="block text-xs text-gray-500">
+              Smoothing: {tolerance} px
+              <input
+                type="range"
+                min="0"
+                max="5"
+                step="0.5"
+                value={tolerance}
+                onChange={(e) => setTolerance(Number(e.target.value))}
+                className="w-full"
+              />
+            </label>
+            <label className="block text-xs text-gray-500">
+              Offset: {offset} px
+              <input
+                type="range"
+                min="0"
+                max="50"
+                value={offset}
+                onChange={(e) => setOffset(Number(e.target.value))}
+                className="w-full"
+                title="Grows the outline away from the subject, e.g. for a sticker border"
+              />
+            </label>
+            <label className="block text-xs text-gray-500">
+              Stroke: {strokeWidth} px
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min="0.5"
+                  max="20"
+                  step="0.5"
+                  value={strokeWidth}
+                  onChange={(e) => setStrokeWidth(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <input
+                  type="color"
+                  value={strokeColor}
+                  onChange={(e) => setStrokeColor(e.target.value)}
+                  className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                  title="Stroke colour"
+                />
+              </div>
+            </label>
+            <button
+              onClick={handleOutlineDownload}
+              disabled={isExporting}
+              className="block w-full text-left hover:text-blue-600 disabled:opacity-50"
+            >
+              SVG outline
+            </button>
+            <button
+              onClick={handleClipPathDownload}
+              disabled={isExporting}
+              className="block w-full text-left hover:text-blue-600 disabled:opacity-50"
+            >
+              SVG clip path
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { ProgressBar } from './ProgressBar';
+import { useModelLoadProgress } from '../hooks/useModelLoadProgress';
+import { formatFileSize, formatTimeRemaining } from '../utils/formatters';
+import { ModelLoadPhase } from '../../lib/process';
+
+const PHASE_LABELS: Record<ModelLoadPhase, string> = {
+  downloading: 'Downloading model files',
+  initializing: 'Preparing the model',
+  ready: 'Model ready',
+  failed: 'Model failed to load'
+};
+
+/**
+ * Overall and per-file progress of the model currently loading
+ */
+export function ModelLoadStatus() {
+  const load = useModelLoadProgress();
+
+  if (!load || load.phase === 'ready') {
+    return <p className="text-sm text-gray-400">This may take a moment on first load</p>;
+  }
+
+  // Tiny config files finish instantly; only list the ones worth watching
+  const files = load.files.filter(file => file.total > 1024 * 1024);
+
+  return (
+    <div className="w-full max-w-md text-left" onClick={(e) => e.stopPropagation()}>
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>{PHASE_LABELS[load.phase]}</span>
+        {load.phase === 'downloading' && load.estimatedTimeRemaining !== undefined && (
+          <span>{formatTimeRemaining(load.estimatedTimeRemaining)} left</span>
+        )}
+      </div>
+      <ProgressBar
+        progress={load.progress}
+        status={load.phase === 'failed' ? 'failed' : 'processing'}
+        size="sm"
+      />
+      {files.length > 0 && (
+        <ul className="mt-2 space-y-0.5 text-xs text-gray-500">
+          {files.map(file => (
+            <li key={file.file} className="flex justify-between gap-2">
+              <span className="truncate">{file.file}</span>
+              <span className="flex-shrink-0">
+                {file.done ? formatFileSize(file.total) : `${formatFileSize(file.loaded)} of ${formatFileSize(file.total)}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { formatFileSize } from '../utils/formatters';
+import { listModels } from '../../lib/models';
+import {
+  downloadModelForOffline,
+  verifyOfflineModel,
+  removeOfflineModel,
+  getOfflineManifest,
+  getModelSource,
+  OfflineModelManifest,
+  ModelSource
+} from '../../lib/modelSource';
+import { saveModelSourceSettings } from '../services/modelSourceSettings';
+import { getPreferredDtype } from '../services/modelPreferences';
+
+interface ModelSettingsProps {
+  onClose: () => void;
+}
+
+export function ModelSettings({ onClose }: ModelSettingsProps) {
+  const [source, setSource] = useState<ModelSource>(getModelSource);
+  const [manifests, setManifests] = useState<Record<string, OfflineModelManifest | null>>({});
+  const [busyModel, setBusyModel] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const models = useMemo(() => listModels(), []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const entries = await Promise.all(
+        models.map(async model => [model.id, await getOfflineManifest(model.id)] as const)
+      );
+      setManifests(Object.fromEntries(entries));
+    } catch (error) {
+      console.error('Error reading offline models:', error);
+    }
+  }, [models]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleSaveSource = () => {
+    saveModelSourceSettings(source);
+    setStatus('Model source saved; it applies the next time a model loads');
+  };
+
+  // Runs one action at a time against a model, reporting its outcome in the status line
+  const runAction = async (modelId: string, action: () => Promise<string>) => {
+    setBusyModel(modelId);
+    setStatus(null);
+    try {
+      setStatus(await action());
+      await refresh();
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusyModel(null);
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = (modelId: string, label: string) => runAction(modelId, async () => {
+    const dtype = getPreferredDtype(modelId);
+    await downloadModelForOffline(modelId, (file, loaded, total) => {
+      setProgress(total > 0
+        ? `${file}: ${Math.round((loaded / total) * 100)}%`
+        : `${file}: ${formatFileSize(loaded)}`);
+    }, dtype && [dtype]);
+    return `${label} is available offline`;
+  });
+
+  const handleVerify = (modelId: string, label: string) => runAction(modelId, async () => {
+    const report = await verifyOfflineModel(modelId);
+    if (report.ok) return `${label} passed the integrity check`;
+    const problems = [
+      ...report.missing.map(file => `${file} is missing`),
+      ...report.corrupted.map(file => `${file} is corrupted and was removed`)
+    ];
+    return `${label}: ${problems.join(', ')}. Download it again to repair it.`;
+  });
+
+  const handleRemove = (modelId: string, label: string) => runAction(modelId, async () => {
+    await removeOfflineModel(modelId);
+    return `Removed the offline copy of ${label}`;
+  });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-60"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Models</h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800 transition-colors duration-200">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Model source */}
+        <div className="mb-4 text-sm">
+          <label className="flex flex-col gap-1 text-gray-700 mb-2">
+            Self-hosted model URL or path
+            <input
+              type="text"
+              placeholder="e.g. /models/ for files in public/models"
+              value={source.localModelPath ?? ''}
+              onChange={(e) => setSource({ ...source, localModelPath: e.target.value || null })}
+              className="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-700 mb-2">
+            <input
+              type="checkbox"
+              checked={!source.allowRemoteModels}
+              onChange={(e) => setSource({ ...source, allowRemoteModels: !e.target.checked })}
+            />
+            Never download from Hugging Face
+          </label>
+          <button onClick={handleSaveSource} className="text-blue-600 hover:underline">
+            Save model source
+          </button>
+        </div>
+
+        {/* Offline copies */}
+        <table className="w-full text-sm mb-4">
+          <tbody>
+            {models.map(model => {
+              const manifest = manifests[model.id];
+              const size = manifest?.files.reduce((sum, file) => sum + file.size, 0) ?? 0;
+              const busy = busyModel !== null;
+              return (
+                <tr key={model.id} className="border-b border-gray-100 align-top">
+                  <td className="py-2 text-gray-700">
+                    <div>{model.label}</div>
+                    <div className="text-xs text-gray-500">{model.license}</div>
+                    <div className="text-xs text-gray-500">
+                      {manifest
+                        ? `Offline copy: ${formatFileSize(size)}, ${new Date(manifest.downloadedAt).toLocaleDateString()}`
+                        : 'Not available offline'}
+                    </div>
+                    {busyModel === model.id && progress && (
+                      <div className="text-xs text-blue-600">{progress}</div>
+                    )}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleDownload(model.id, model.label)}
+                      disabled={busy}
+                      className="text-blue-600 hover:underline disabled:opacity-50 ml-2"
+                    >
+                      {manifest ? 'Re-download' : 'Download'}
+                    </button>
+                    {manifest && (
+                      <>
+                        <button
+                          onClick={() => handleVerify(model.id, model.label)}
+                          disabled={busy}
+                          className="text-blue-600 hover:underline disabled:opacity-50 ml-2"
+                        >
+                          Verify
+                        </button>
+                        <button
+                          onClick={() => handleRemove(model.id, model.label)}
+                          disabled={busy}
+                          className="text-red-600 hover:underline disabled:opacity-50 ml-2"
+                        >
+                          Remove
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {status && <p className="text-sm text-gray-600">{status}</p>}
+      </div>
+    </div>
+  );
+}
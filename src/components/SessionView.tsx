@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { JobBatch, ProcessingJob } from '../types';
 import { BatchCard } from './BatchCard';
 import { ProgressBar } from './ProgressBar';
-import { batchManager, groupBatchesByTime } from '../services/batchManager';
+import { groupBatchesByTime } from '../services/batchManager';
 import { useJobProgress } from '../hooks/useJobProgress';
 import { formatRelativeTime, formatDuration } from '../utils/formatters';
 
@@ -52,7 +52,7 @@ export function SessionView({
           let completedJobs = 0;
           let failedJobs = 0;
           let totalProgress = 0;
-          let startTime = Math.min(...group.batches.map(b => b.startTime));
+          const startTime = Math.min(...group.batches.map(b => b.startTime));
           let endTime: number | undefined;
 
           for (const batch of group.batches) {
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { formatFileSize } from '../utils/formatters';
+import {
+  getStorageUsage,
+  getTableUsage,
+  getEvictionPolicy,
+  setEvictionPolicy,
+  enforceEvictionPolicy,
+  requestStoragePersistence,
+  EvictionPolicy,
+  StorageUsage,
+  TableUsage
+} from '../services/storageManager';
+
+interface StorageSettingsProps {
+  onClose: () => void;
+  onEvicted: () => void; // Called after history entries were removed
+}
+
+const MB = 1024 * 1024;
+
+// Empty inputs mean "no limit"
+const parseLimit = (value: string): number | undefined => {
+  const parsed = Number(value);
+  return value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+export function StorageSettings({ onClose, onEvicted }: StorageSettingsProps) {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [tables, setTables] = useState<TableUsage[]>([]);
+  const [policy, setPolicy] = useState<EvictionPolicy>(getEvictionPolicy);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = async () => {
+    try {
+      const [storageUsage, tableUsage] = await Promise.all([getStorageUsage(), getTableUsage()]);
+      setUsage(storageUsage);
+      setTables(tableUsage);
+    } catch (error) {
+      console.error('Error loading storage usage:', error);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const updatePolicy = (changes: Partial<EvictionPolicy>) => {
+    const next = { ...policy, ...changes };
+    setPolicy(next);
+    setEvictionPolicy(next);
+  };
+
+  const handleApply = async () => {
+    setBusy(true);
+    try {
+      const evicted = await enforceEvictionPolicy(policy);
+      setStatus(evicted === 0
+        ? 'Nothing to clean up'
+        : `Removed ${policy.target === 'thumbnails' ? 'thumbnails for ' : ''}${evicted} ${evicted === 1 ? 'image' : 'images'}`);
+      if (evicted > 0) onEvicted();
+      await refresh();
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Failed to apply policy');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestStoragePersistence();
+    setStatus(granted ? 'Storage is now persistent' : 'The browser declined persistent storage');
+    await refresh();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-60"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Storage</h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800 transition-colors duration-200">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Overall usage */}
+        {usage && usage.quota > 0 && (
+          <div className="mb-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{formatFileSize(usage.usage)} of {formatFileSize(usage.quota)}</span>
+              <span>{usage.percentUsed.toFixed(1)}%</span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${usage.percentUsed >= 80 ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${Math.min(100, usage.percentUsed)}%` }}
+              />
+            </div>
+            <div className="flex justify-between items-center mt-2 text-xs text-gray-500">
+              <span>{usage.persisted ? 'Persistent storage' : 'Storage may be cleared by the browser'}</span>
+              {!usage.persisted && (
+                <button onClick={handlePersist} className="text-blue-600 hover:underline">
+                  Make persistent
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Per-table usage */}
+        <table className="w-full text-sm mb-4">
+          <tbody>
+            {tables.map(table => (
+              <tr key={table.name} className="border-b border-gray-100">
+                <td className="py-1 text-gray-700">{table.name}</td>
+                <td className="py-1 text-right text-gray-500">{table.rows} rows</td>
+                <td className="py-1 text-right text-gray-500">{formatFileSize(table.bytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Eviction policy */}
+        <div className="grid grid-cols-3 gap-3 mb-3 text-sm">
+          <label className="flex flex-col gap-1 text-gray-700">
+            Max images
+            <input
+              type="number"
+              min={0}
+              placeholder="No limit"
+              value={policy.maxItems ?? ''}
+              onChange={(e) => updatePolicy({ maxItems: parseLimit(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-700">
+            Max size (MB)
+            <input
+              type="number"
+              min={0}
+              placeholder="No limit"
+              value={policy.maxBytes !== undefined ? Math.round(policy.maxBytes / MB) : ''}
+              onChange={(e) => {
+                const megabytes = parseLimit(e.target.value);
+                updatePolicy({ maxBytes: megabytes !== undefined ? megabytes * MB : undefined });
+              }}
+              className="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-700">
+            Max age (days)
+            <input
+              type="number"
+              min={0}
+              placeholder="No limit"
+              value={policy.maxAgeDays ?? ''}
+              onChange={(e) => updatePolicy({ maxAgeDays: parseLimit(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+          When over a limit, remove the least recently viewed
+          <select
+            value={policy.target}
+            onChange={(e) => updatePolicy({ target: e.target.value as EvictionPolicy['target'] })}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="items">images</option>
+            <option value="thumbnails">thumbnails only</option>
+          </select>
+        </label>
+
+        {status && <p className="text-sm text-gray-600 mb-3">{status}</p>}
+
+        <button
+          onClick={handleApply}
+          disabled={busy}
+          className="w-full px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg transition-colors duration-200"
+        >
+          {busy ? 'Applying...' : 'Apply now'}
+        </button>
+      </div>
+    </div>
+  );
+}
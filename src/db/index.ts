@@ -1,8 +1,45 @@
 import Dexie, { Table } from 'dexie';
-import { ImageHistoryItem } from '../types';
+import {
+  ImageHistoryItem,
+  HistoryStats,
+  HistoryThumbnail,
+  ProcessingJob,
+  JobBatch,
+  BatchSession
+} from '../types';
+
+// History rows converted per step of the v3 migration, to bound memory use
+const MIGRATION_CHUNK_SIZE = 25;
+
+// Shape of history rows before v3, when images were stored as data URLs
+interface LegacyImageHistoryItem
+  extends Omit<ImageHistoryItem, 'originalImage' | 'processedImage' | 'fileNameLower' | 'lastViewedAt' | 'thumbnailBytes'> {
+  originalImageData?: string;
+  processedImageData?: string;
+}
+
+/**
+ * Decode a base64 data URL into a Blob. Synchronous, so it can run inside
+ * an upgrade transaction without letting it auto-commit.
+ */
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64 = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
 
 export class ImageHistoryDB extends Dexie {
   imageHistory!: Table<ImageHistoryItem, number>;
+  thumbnails!: Table<HistoryThumbnail, number>;
+  historyStats!: Table<HistoryStats, string>;
+  jobBatches!: Table<JobBatch, string>;
+  processingJobs!: Table<ProcessingJob, string>;
+  sessions!: Table<BatchSession, string>;
 
   constructor() {
     super('BGRemoverImageHistory');
@@ -10,6 +47,107 @@ export class ImageHistoryDB extends Dexie {
     this.version(1).stores({
       imageHistory: '++id, originalFileName, timestamp, fileSize'
     });
+
+    // v2: persistent job queue and batch sessions
+    this.version(2).stores({
+      imageHistory: '++id, originalFileName, timestamp, fileSize',
+      jobBatches: 'id, status, startTime, endTime',
+      processingJobs: 'id, batchId, status, startTime, endTime',
+      sessions: 'id, startTime' // IndexedDB can't index booleans, so isActive is filtered in memory
+    }).upgrade(tx => {
+      // Rows without a numeric timestamp/fileSize drop out of the index-backed
+      // history queries, so backfill them instead of leaving them invisible
+      return tx.table('imageHistory').toCollection().modify((item: ImageHistoryItem) => {
+        if (typeof item.timestamp !== 'number') {
+          item.timestamp = Date.now();
+        }
+        if (typeof item.fileSize !== 'number') {
+          item.fileSize = 0;
+        }
+      });
+    });
+
+    // v3: history images stored as Blobs instead of base64 data URLs
+    this.version(3).stores({}).upgrade(async tx => {
+      const table = tx.table('imageHistory');
+      let lastId = 0;
+
+      // Walk the table by primary key so only one chunk of decoded images is in memory
+      for (;;) {
+        const rows: LegacyImageHistoryItem[] = await table
+          .where(':id')
+          .above(lastId)
+          .limit(MIGRATION_CHUNK_SIZE)
+          .toArray();
+        if (rows.length === 0) break;
+
+        const converted = rows.map(({ originalImageData, processedImageData, ...rest }) => ({
+          ...rest,
+          originalImage: originalImageData ? dataUrlToBlob(originalImageData) : new Blob(),
+          processedImage: processedImageData ? dataUrlToBlob(processedImageData) : new Blob()
+        }));
+        await table.bulkPut(converted);
+        lastId = rows[rows.length - 1].id!;
+      }
+    });
+
+    // v4: gallery thumbnails, kept apart so the grid never decodes full images.
+    // Existing rows get theirs generated lazily the first time the gallery shows them.
+    this.version(4).stores({
+      thumbnails: 'historyId'
+    });
+
+    // v5: lowercase filename index for prefix search, and incrementally kept stats
+    this.version(5).stores({
+      imageHistory: '++id, originalFileName, fileNameLower, timestamp, fileSize',
+      historyStats: 'id'
+    }).upgrade(async tx => {
+      let totalImages = 0;
+      let totalSize = 0;
+
+      await tx.table('imageHistory').toCollection().modify((item: ImageHistoryItem) => {
+        item.fileNameLower = (item.originalFileName ?? '').toLowerCase();
+        totalImages++;
+        totalSize += item.fileSize;
+      });
+
+      await tx.table('historyStats').put({ id: 'totals', totalImages, totalSize });
+    });
+
+    // v6: last-viewed time, so storage eviction can drop the least recently viewed items first,
+    // and stored sizes in the stats so its byte limit doesn't have to measure every row
+    this.version(6).stores({
+      imageHistory: '++id, originalFileName, fileNameLower, timestamp, fileSize, lastViewedAt'
+    }).upgrade(async tx => {
+      const thumbnailSizes = new Map<number, number>();
+      await tx.table('thumbnails').each((thumbnail: HistoryThumbnail) => {
+        thumbnailSizes.set(thumbnail.historyId, thumbnail.image.size);
+      });
+
+      const stats: HistoryStats = {
+        id: 'totals',
+        totalImages: 0,
+        totalSize: 0,
+        storedBytes: 0,
+        thumbnails: 0,
+        thumbnailBytes: 0
+      };
+
+      await tx.table('imageHistory').toCollection().modify((item: ImageHistoryItem) => {
+        item.lastViewedAt = item.timestamp;
+        item.thumbnailBytes = thumbnailSizes.get(item.id!) ?? 0;
+
+        stats.totalImages++;
+        stats.totalSize += item.fileSize;
+        if (item.thumbnailBytes > 0) stats.thumbnails++;
+        stats.thumbnailBytes += item.thumbnailBytes;
+        for (const value of Object.values(item)) {
+          if (value instanceof Blob) stats.storedBytes += value.size;
+        }
+      });
+
+      await tx.table('historyStats').put(stats);
+    });
   }
 }
 
@@ -12,7 +12,8 @@ import {
   getJobsForBatch,
   getActiveJobs,
   cancelJob,
-  cancelBatch
+  cancelBatch,
+  retryJob
 } from '../services/jobService';
 
 export interface UseJobProgressReturn {
@@ -23,6 +24,7 @@ export interface UseJobProgressReturn {
   refreshData: () => Promise<void>;
   cancelJob: (jobId: string) => Promise<void>;
   cancelBatch: (batchId: string) => Promise<void>;
+  retryJob: (jobId: string) => Promise<void>;
   getJobsForBatch: (batchId: string) => Promise<ProcessingJob[]>;
 }
 
@@ -100,17 +102,15 @@ export function useJobProgress(): UseJobProgressReturn {
 
   // Set up event listeners
   useEffect(() => {
-    jobEventEmitter.onJobUpdate(handleJobUpdate);
-    jobEventEmitter.onBatchUpdate(handleBatchUpdate);
+    const offJobUpdate = jobEventEmitter.onJobUpdate(handleJobUpdate);
+    const offBatchUpdate = jobEventEmitter.onBatchUpdate(handleBatchUpdate);
 
     // Initial data load
     refreshData();
 
-    // Cleanup function would be needed if we had removeEventListener
-    // For now, we rely on the component unmounting
     return () => {
-      // Note: EventTarget doesn't have removeEventListener for custom events
-      // This is a limitation we'll accept for this implementation
+      offJobUpdate();
+      offBatchUpdate();
     };
   }, [handleJobUpdate, handleBatchUpdate, refreshData]);
 
@@ -122,6 +122,7 @@ export function useJobProgress(): UseJobProgressReturn {
     refreshData,
     cancelJob,
     cancelBatch,
+    retryJob,
     getJobsForBatch
   };
 }
@@ -184,13 +185,14 @@ export function useBatchProgress(batchId: string) {
   }, []);
 
   useEffect(() => {
-    jobEventEmitter.onBatchUpdate(handleBatchUpdate);
-    jobEventEmitter.onJobUpdate(handleJobUpdate);
+    const offBatchUpdate = jobEventEmitter.onBatchUpdate(handleBatchUpdate);
+    const offJobUpdate = jobEventEmitter.onJobUpdate(handleJobUpdate);
 
     refreshBatchData();
 
     return () => {
-      // Cleanup would go here if supported
+      offBatchUpdate();
+      offJobUpdate();
     };
   }, [handleBatchUpdate, handleJobUpdate, refreshBatchData]);
 
@@ -237,12 +239,10 @@ export function useSpecificJobProgress(jobId: string) {
   }, [jobId]);
 
   useEffect(() => {
-    jobEventEmitter.onJobUpdate(handleJobUpdate);
+    const offJobUpdate = jobEventEmitter.onJobUpdate(handleJobUpdate);
     refreshJobData();
 
-    return () => {
-      // Cleanup would go here if supported
-    };
+    return offJobUpdate;
   }, [handleJobUpdate, refreshJobData]);
 
   return {
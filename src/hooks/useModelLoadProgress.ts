@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import type { ModelLoadProgress } from '../../lib/process';
+import { workerManager } from '../services/workerManager';
+
+/**
+ * Follow the progress of model loading in the inference workers. Returns null
+ * until a model starts loading.
+ */
+export function useModelLoadProgress(): ModelLoadProgress | null {
+  const [progress, setProgress] = useState<ModelLoadProgress | null>(() => workerManager.getModelLoadProgress());
+
+  useEffect(() => workerManager.onModelLoadProgress(setProgress), []);
+
+  return progress;
+}
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Create an object URL for a Blob and revoke it when the Blob changes or the
+ * component unmounts. Returns undefined while there is no Blob.
+ */
+export function useObjectUrl(blob: Blob | null | undefined): string | undefined {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
@@ -0,0 +1,203 @@
+import JSZip from 'jszip';
+import { db } from '../db';
+import { ProcessingJob } from '../types';
+import { getJobsForBatch } from './jobService';
+import { getFileExtension, getFileNameWithoutExtension } from '../utils/formatters';
+
+export const DEFAULT_NAMING_TEMPLATE = '{name}-{batch}-{index}.png';
+
+const TEMPLATE_STORAGE_KEY = 'bg-remover:batch-naming-template';
+const REPORT_FILE_NAME = 'report.csv';
+
+export interface NamingTokens {
+  name: string; // Original filename without its extension
+  batch: string;
+  index: number; // 1-based position of the job in the batch
+  total: number;
+}
+
+export interface BatchArchive {
+  archive: Blob;
+  fileName: string;
+  included: number;
+  reported: number; // Jobs without a result, listed in report.csv
+}
+
+export type BatchExportProgressCallback = (percent: number) => void;
+
+// Keep names valid on every OS the archive might be unpacked on
+const sanitize = (value: string): string =>
+  value.replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, ' ').trim();
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Fill in a naming template. Supported tokens are {name}, {batch} and {index};
+ * the index is zero-padded to the width of the batch size so files sort in order.
+ * Whatever extension the template has is replaced by the result's own.
+ */
+export function formatBatchFileName(template: string, tokens: NamingTokens, extension = 'png'): string {
+  const index = String(tokens.index).padStart(String(tokens.total).length, '0');
+  const fileName = sanitize(
+    template
+      .replace(/\{name\}/g, tokens.name)
+      .replace(/\{batch\}/g, tokens.batch)
+      .replace(/\{index\}/g, index)
+  );
+
+  const base = getFileNameWithoutExtension(fileName) || `image-${index}`;
+  return `${base}.${extension}`;
+}
+
+export function getNamingTemplate(): string {
+  return localStorage.getItem(TEMPLATE_STORAGE_KEY) || DEFAULT_NAMING_TEMPLATE;
+}
+
+export function setNamingTemplate(template: string): void {
+  localStorage.setItem(TEMPLATE_STORAGE_KEY, template.trim() || DEFAULT_NAMING_TEMPLATE);
+}
+
+function buildReport(jobs: ProcessingJob[]): string {
+  const rows = jobs.map(job => [
+    job.fileName,
+    job.status,
+    job.attempts,
+    job.error ?? ''
+  ].map(csvField).join(','));
+
+  return ['file,status,attempts,error', ...rows].join('\r\n') + '\r\n';
+}
+
+interface BatchZip {
+  zip: JSZip;
+  batchName: string;
+  included: number;
+  reported: number;
+}
+
+/**
+ * Name of the ZIP a batch is downloaded as
+ */
+export function getBatchArchiveName(batchName: string): string {
+  return `${sanitize(batchName) || 'batch'}.zip`;
+}
+
+// Lay out the archive. Entries only reference the stored blobs; their bytes
+// are read when the archive is generated, one entry at a time.
+async function buildBatchZip(batchId: string, template: string): Promise<BatchZip> {
+  const batch = await db.jobBatches.get(batchId);
+  if (!batch) throw new Error(`Batch ${batchId} not found`);
+
+  const jobs = await getJobsForBatch(batchId);
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const withoutResult: ProcessingJob[] = [];
+  const batchName = sanitize(batch.name);
+
+  jobs.forEach((job, position) => {
+    if (job.status !== 'completed' || !job.processedFile) {
+      withoutResult.push(job);
+      return;
+    }
+
+    // Videos come out as WebM or MP4, images as PNG
+    const extension = getFileExtension(job.processedFile.name) || 'png';
+    const baseName = formatBatchFileName(template, {
+      name: getFileNameWithoutExtension(job.fileName),
+      batch: batchName,
+      index: position + 1,
+      total: jobs.length
+    }, extension);
+
+    // Templates without {index} can repeat a name; never overwrite an entry
+    let fileName = baseName;
+    for (let n = 2; usedNames.has(fileName.toLowerCase()); n++) {
+      fileName = `${getFileNameWithoutExtension(baseName)}-${n}.${extension}`;
+    }
+    usedNames.add(fileName.toLowerCase());
+
+    zip.file(fileName, job.processedFile);
+  });
+
+  if (withoutResult.length > 0) {
+    zip.file(REPORT_FILE_NAME, buildReport(withoutResult));
+  }
+
+  return {
+    zip,
+    batchName: batch.name,
+    included: jobs.length - withoutResult.length,
+    reported: withoutResult.length
+  };
+}
+
+// PNGs and videos are already compressed
+const GENERATE_OPTIONS = { compression: 'STORE', streamFiles: true } as const;
+
+/**
+ * Zip every processed image in a batch, named by the template, along with a
+ * report.csv listing the jobs that produced no image. The whole archive is
+ * built in memory; use saveBatchArchive where a file can be written instead.
+ */
+export async function exportBatchArchive(
+  batchId: string,
+  template: string = getNamingTemplate(),
+  onProgress?: BatchExportProgressCallback
+): Promise<BatchArchive> {
+  try {
+    const { zip, batchName, included, reported } = await buildBatchZip(batchId, template);
+    const archive = await zip.generateAsync(
+      { ...GENERATE_OPTIONS, type: 'blob' },
+      ({ percent }) => onProgress?.(percent)
+    );
+
+    return { archive, fileName: getBatchArchiveName(batchName), included, reported };
+  } catch (error) {
+    console.error('Error exporting batch:', error);
+    throw new Error('Failed to export batch');
+  }
+}
+
+/**
+ * Like exportBatchArchive, but the archive is streamed into a writable (e.g.
+ * from a file picked with showSaveFilePicker) as it is generated, so only the
+ * entry being written is held in memory. The writable is closed when done,
+ * and aborted on failure.
+ */
+export async function saveBatchArchive(
+  batchId: string,
+  writable: WritableStream<Uint8Array>,
+  template: string = getNamingTemplate(),
+  onProgress?: BatchExportProgressCallback
+): Promise<Omit<BatchArchive, 'archive'>> {
+  const writer = writable.getWriter();
+  try {
+    const { zip, batchName, included, reported } = await buildBatchZip(batchId, template);
+
+    await new Promise<void>((resolve, reject) => {
+      const stream = zip.generateInternalStream({ ...GENERATE_OPTIONS, type: 'uint8array' });
+      stream
+        .on('data', (chunk, { percent }) => {
+          // Backpressure: generate the next chunk once this one is written
+          stream.pause();
+          writer.write(chunk).then(() => {
+            onProgress?.(percent);
+            stream.resume();
+          }, reject);
+        })
+        .on('error', reject)
+        .on('end', () => resolve())
+        .resume();
+    });
+    await writer.close();
+
+    return { fileName: getBatchArchiveName(batchName), included, reported };
+  } catch (error) {
+    console.error('Error exporting batch:', error);
+    await writer.abort(error).catch(() => {});
+    throw new Error('Failed to export batch');
+  }
+}
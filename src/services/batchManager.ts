@@ -1,25 +1,13 @@
-import { JobBatch, ProcessingJob } from '../types';
+import { db } from '../db';
+import { JobBatch, BatchSession } from '../types';
 import { 
   createJobBatch, 
   createProcessingJob, 
   getJobsForBatch, 
-  getAllBatches,
-  updateBatchProgress 
+  getAllBatches
 } from './jobService';
 import { generateBatchName } from '../utils/formatters';
 
-export interface BatchSession {
-  id: string;
-  name: string;
-  startTime: number;
-  endTime?: number;
-  batchIds: string[];
-  totalJobs: number;
-  completedJobs: number;
-  failedJobs: number;
-  isActive: boolean;
-}
-
 export interface BatchCreationOptions {
   sessionId?: string;
   batchName?: string;
@@ -31,6 +19,37 @@ class BatchManager {
   private activeSessions: Map<string, BatchSession> = new Map();
   private currentSessionId: string | null = null;
   private autoGroupTimeWindow = 5 * 60 * 1000; // 5 minutes
+  private loaded: Promise<void> | null = null;
+
+  /**
+   * Load persisted sessions into memory, once per page load
+   */
+  private ensureLoaded(): Promise<void> {
+    this.loaded ??= db.sessions.toArray().then(sessions => {
+      for (const session of sessions) {
+        this.activeSessions.set(session.id, session);
+      }
+
+      // Resume the most recent session that was still open
+      const current = sessions
+        .filter(session => session.isActive)
+        .sort((a, b) => b.startTime - a.startTime)[0];
+      this.currentSessionId ??= current?.id ?? null;
+    }).catch(error => {
+      console.error('Error loading batch sessions:', error);
+      this.loaded = null;
+    });
+    return this.loaded;
+  }
+
+  private async saveSession(session: BatchSession): Promise<void> {
+    try {
+      await db.sessions.put(session);
+    } catch (error) {
+      console.error('Error saving batch session:', error);
+      throw new Error('Failed to save batch session');
+    }
+  }
 
   /**
    * Create or get a batch for processing files
@@ -46,6 +65,8 @@ class BatchManager {
       timeWindowMs = this.autoGroupTimeWindow
     } = options;
 
+    await this.ensureLoaded();
+
     // If session ID is provided, use it
     if (sessionId) {
       return this.createBatchInSession(sessionId, files, batchName);
@@ -73,6 +94,7 @@ class BatchManager {
    * Create a new session
    */
   async createSession(name?: string): Promise<string> {
+    await this.ensureLoaded();
     const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
     const session: BatchSession = {
@@ -88,6 +110,7 @@ class BatchManager {
 
     this.activeSessions.set(sessionId, session);
     this.currentSessionId = sessionId;
+    await this.saveSession(session);
     
     return sessionId;
   }
@@ -111,6 +134,7 @@ class BatchManager {
     // Update session
     session.batchIds.push(batchId);
     session.totalJobs += files.length;
+    await this.saveSession(session);
 
     return batchId;
   }
@@ -132,21 +156,24 @@ class BatchManager {
   /**
    * Get session information
    */
-  getSession(sessionId: string): BatchSession | undefined {
+  async getSession(sessionId: string): Promise<BatchSession | undefined> {
+    await this.ensureLoaded();
     return this.activeSessions.get(sessionId);
   }
 
   /**
    * Get all active sessions
    */
-  getActiveSessions(): BatchSession[] {
+  async getActiveSessions(): Promise<BatchSession[]> {
+    await this.ensureLoaded();
     return Array.from(this.activeSessions.values()).filter(s => s.isActive);
   }
 
   /**
    * Get current session
    */
-  getCurrentSession(): BatchSession | null {
+  async getCurrentSession(): Promise<BatchSession | null> {
+    await this.ensureLoaded();
     return this.currentSessionId ? this.activeSessions.get(this.currentSessionId) || null : null;
   }
 
@@ -154,6 +181,7 @@ class BatchManager {
    * End a session
    */
   async endSession(sessionId: string): Promise<void> {
+    await this.ensureLoaded();
     const session = this.activeSessions.get(sessionId);
     if (session) {
       session.isActive = false;
@@ -162,6 +190,7 @@ class BatchManager {
       if (this.currentSessionId === sessionId) {
         this.currentSessionId = null;
       }
+      await this.saveSession(session);
     }
   }
 
@@ -169,6 +198,7 @@ class BatchManager {
    * Get batches for a session
    */
   async getBatchesForSession(sessionId: string): Promise<JobBatch[]> {
+    await this.ensureLoaded();
     const session = this.activeSessions.get(sessionId);
     if (!session) return [];
 
@@ -187,6 +217,7 @@ class BatchManager {
     pendingJobs: number;
     overallProgress: number;
   }> {
+    await this.ensureLoaded();
     const session = this.activeSessions.get(sessionId);
     if (!session) {
       return {
@@ -236,6 +267,7 @@ class BatchManager {
     session.totalJobs = totalJobs;
     session.completedJobs = completedJobs;
     session.failedJobs = failedJobs;
+    await this.saveSession(session);
 
     return {
       totalJobs,
@@ -250,14 +282,19 @@ class BatchManager {
   /**
    * Auto-cleanup old sessions
    */
-  cleanupOldSessions(olderThanMs: number = 24 * 60 * 60 * 1000): void {
+  async cleanupOldSessions(olderThanMs: number = 24 * 60 * 60 * 1000): Promise<void> {
+    await this.ensureLoaded();
     const cutoffTime = Date.now() - olderThanMs;
+    const expiredIds: string[] = [];
     
     for (const [sessionId, session] of this.activeSessions.entries()) {
       if (!session.isActive && session.endTime && session.endTime < cutoffTime) {
         this.activeSessions.delete(sessionId);
+        expiredIds.push(sessionId);
       }
     }
+
+    await db.sessions.bulkDelete(expiredIds);
   }
 
   /**
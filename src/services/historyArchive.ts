@@ -0,0 +1,171 @@
+import JSZip from 'jszip';
+import { db } from '../db';
+import { ImageHistoryItem, EditState } from '../types';
+import { importHistoryItem } from './historyService';
+import { isQuotaExceededError } from './storageManager';
+
+const ARCHIVE_FORMAT = 'bg-remover-history';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface ManifestEntry {
+  originalFileName: string;
+  fileSize: number;
+  timestamp: number;
+  lastViewedAt: number;
+  metadata: ImageHistoryItem['metadata'];
+  editState?: EditState;
+  original: string; // Paths inside the archive
+  processed: string;
+  mask?: string; // Absent for images saved before masks were kept
+}
+
+interface HistoryManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: ManifestEntry[];
+}
+
+export interface HistoryImportResult {
+  imported: number;
+  duplicates: number;
+  failed: number; // Entries whose files were missing or could not be stored
+}
+
+export type ArchiveProgressCallback = (done: number, total: number) => void;
+
+// Entries are numbered so two images with the same filename never collide
+const archivePath = (folder: string, index: number, fileName: string): string =>
+  `${folder}/${String(index + 1).padStart(4, '0')}-${fileName.replace(/[\\/]/g, '_')}`;
+
+const processedFileName = (originalFileName: string): string =>
+  `${originalFileName.replace(/\.[^/.]+$/, '')}.png`;
+
+function isManifest(value: unknown): value is HistoryManifest {
+  const manifest = value as HistoryManifest | null;
+  return manifest?.format === ARCHIVE_FORMAT && Array.isArray(manifest.items);
+}
+
+/**
+ * Pack the whole history into a ZIP: originals/, processed/, masks/ and a manifest.json
+ * with each item's metadata and edit state
+ */
+export const exportHistoryArchive = async (onProgress?: ArchiveProgressCallback): Promise<Blob> => {
+  try {
+    const zip = new JSZip();
+    const items: ManifestEntry[] = [];
+
+    // Blobs from IndexedDB are only read when the archive is generated
+    await db.imageHistory.orderBy('timestamp').each(item => {
+      const index = items.length;
+      const original = archivePath('originals', index, item.originalFileName);
+      const processed = archivePath('processed', index, processedFileName(item.originalFileName));
+
+      const mask = item.mask ? archivePath('masks', index, processedFileName(item.originalFileName)) : undefined;
+
+      zip.file(original, item.originalImage);
+      zip.file(processed, item.processedImage);
+      if (mask && item.mask) zip.file(mask, item.mask);
+      items.push({
+        originalFileName: item.originalFileName,
+        fileSize: item.fileSize,
+        timestamp: item.timestamp,
+        lastViewedAt: item.lastViewedAt,
+        metadata: item.metadata,
+        editState: item.editState,
+        original,
+        processed,
+        mask
+      });
+    });
+
+    const manifest: HistoryManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: Date.now(),
+      items
+    };
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+    // Images are already compressed, so storing them is faster and barely larger
+    return await zip.generateAsync(
+      { type: 'blob', compression: 'STORE', streamFiles: true },
+      ({ percent }) => onProgress?.(Math.round((percent / 100) * items.length), items.length)
+    );
+  } catch (error) {
+    console.error('Error exporting history:', error);
+    throw new Error('Failed to export history');
+  }
+};
+
+/**
+ * Restore history from an archive made by exportHistoryArchive. Images that
+ * are already in history are skipped.
+ */
+export const importHistoryArchive = async (
+  archive: Blob,
+  onProgress?: ArchiveProgressCallback
+): Promise<HistoryImportResult> => {
+  let zip: JSZip;
+  let manifest: unknown;
+  try {
+    zip = await JSZip.loadAsync(archive);
+    const manifestFile = zip.file(MANIFEST_PATH);
+    manifest = manifestFile ? JSON.parse(await manifestFile.async('string')) : null;
+  } catch (error) {
+    console.error('Error reading history archive:', error);
+    throw new Error('Failed to read history archive');
+  }
+
+  if (!isManifest(manifest)) {
+    throw new Error('This file is not an exported image history');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error('This history archive was made by a newer version of the app');
+  }
+
+  const result: HistoryImportResult = { imported: 0, duplicates: 0, failed: 0 };
+  const total = manifest.items.length;
+
+  // One item at a time, so only a single image pair is held in memory
+  for (const [index, entry] of manifest.items.entries()) {
+    const originalFile = zip.file(entry.original);
+    const processedFile = zip.file(entry.processed);
+    const maskFile = entry.mask ? zip.file(entry.mask) : null;
+
+    if (!originalFile || !processedFile) {
+      result.failed++;
+    } else {
+      const [original, processed, mask] = await Promise.all([
+        originalFile.async('blob'),
+        processedFile.async('blob'),
+        maskFile?.async('blob')
+      ]);
+
+      try {
+        const id = await importHistoryItem({
+          originalFileName: entry.originalFileName,
+          originalImage: new Blob([original], { type: entry.metadata.type }),
+          processedImage: new Blob([processed], { type: 'image/png' }),
+          mask: mask && new Blob([mask], { type: 'image/png' }),
+          fileSize: entry.fileSize,
+          timestamp: entry.timestamp,
+          lastViewedAt: entry.lastViewedAt ?? entry.timestamp,
+          metadata: entry.metadata,
+          editState: entry.editState
+        });
+        if (id === null) result.duplicates++;
+        else result.imported++;
+      } catch (error) {
+        // A full disk won't clear up by trying the remaining images
+        if (isQuotaExceededError(error)) throw error;
+        result.failed++;
+      }
+    }
+
+    onProgress?.(index + 1, total);
+  }
+
+  return result;
+};
@@ -1,16 +1,96 @@
+import { Collection } from 'dexie';
 import { db } from '../db';
-import { ImageHistoryItem } from '../types';
+import { ImageHistoryItem, HistoryStats, EditState } from '../types';
+import { storageManager, isQuotaExceededError, blobBytes } from './storageManager';
+
+const THUMBNAIL_SIZE = 320; // Longest edge, in pixels
+const THUMBNAIL_QUALITY = 0.8;
+
+export interface HistoryQuery {
+  searchTerm?: string; // Case-insensitive filename prefix
+  from?: number; // Inclusive timestamp bounds
+  to?: number;
+}
+
+// Position of the last item on a page; pass it back to get the page after it
+export interface HistoryCursor {
+  key: string | number;
+  id: number;
+}
+
+export interface HistoryPage {
+  items: ImageHistoryItem[];
+  nextCursor?: HistoryCursor;
+}
+
+type HistoryTotals = Omit<HistoryStats, 'id'>;
+
+const EMPTY_STATS: HistoryStats = {
+  id: 'totals',
+  totalImages: 0,
+  totalSize: 0,
+  storedBytes: 0,
+  thumbnails: 0,
+  thumbnailBytes: 0
+};
 
 /**
- * Convert File to base64 string
+ * Apply a change to the running history totals. Call inside a transaction that
+ * includes db.historyStats, alongside the write it accounts for.
  */
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
+const adjustStats = async (delta: Partial<HistoryTotals>): Promise<void> => {
+  const stats: HistoryStats = { ...EMPTY_STATS, ...await db.historyStats.get('totals') };
+  for (const [key, value] of Object.entries(delta) as Array<[keyof HistoryTotals, number]>) {
+    stats[key] = Math.max(0, stats[key] + value);
+  }
+  await db.historyStats.put(stats);
+};
+
+// What adding a whole entry, thumbnail included, does to the totals
+const entryTotals = (item: Omit<ImageHistoryItem, 'id' | 'fileNameLower'>): HistoryTotals => ({
+  totalImages: 1,
+  totalSize: item.fileSize,
+  storedBytes: blobBytes(item),
+  thumbnails: item.thumbnailBytes > 0 ? 1 : 0,
+  thumbnailBytes: item.thumbnailBytes
+});
+
+/**
+ * Build the collection for a query, starting after the cursor if given.
+ * Prefix searches walk the filename index (A to Z); everything else walks the
+ * timestamp index, newest first. Ties on the index key fall back to the ID.
+ */
+const historyCollection = (
+  query: HistoryQuery,
+  cursor?: HistoryCursor
+): Collection<ImageHistoryItem, number> => {
+  const prefix = query.searchTerm?.trim().toLowerCase();
+  const from = query.from ?? -Infinity;
+  const to = query.to ?? Infinity;
+
+  if (prefix) {
+    let collection = db.imageHistory
+      .where('fileNameLower')
+      .between(cursor ? cursor.key : prefix, prefix + '\uffff', true, true);
+
+    if (query.from !== undefined || query.to !== undefined) {
+      collection = collection.filter(item => item.timestamp >= from && item.timestamp <= to);
+    }
+    if (cursor) {
+      collection = collection.filter(item => item.fileNameLower > cursor.key || item.id! > cursor.id);
+    }
+    return collection;
+  }
+
+  let collection = db.imageHistory
+    .where('timestamp')
+    .between(from, cursor ? cursor.key : to, true, true)
+    .reverse();
+
+  if (cursor) {
+    collection = collection.filter(item => item.timestamp < (cursor.key as number) || item.id! < cursor.id);
+  }
+  return collection;
 };
 
 /**
@@ -36,25 +116,69 @@ const getImageDimensions = (file: File): Promise<{ width: number; height: number
 };
 
 /**
- * Save a processed image to history
+ * Downscale an image to a WebP thumbnail (browsers without WebP encoding fall back to PNG)
+ */
+const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Could not get 2d context');
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      return await canvas.convertToBlob({ type: 'image/webp', quality: THUMBNAIL_QUALITY });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get 2d context');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => blob ? resolve(blob) : reject(new Error('Failed to create thumbnail')),
+        'image/webp',
+        THUMBNAIL_QUALITY
+      )
+    );
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Save a processed image to history, with the mask that produced it if given
  */
 export const saveImageToHistory = async (
   originalFile: File,
-  processedFile: File
+  processedFile: File,
+  mask?: Blob
 ): Promise<number> => {
   try {
-    const [originalImageData, processedImageData, dimensions] = await Promise.all([
-      fileToBase64(originalFile),
-      fileToBase64(processedFile),
-      getImageDimensions(originalFile)
+    // Warns well before the quota is reached, and applies the eviction policy if close
+    await storageManager.checkQuota(originalFile.size + processedFile.size + (mask?.size ?? 0));
+
+    const [dimensions, thumbnail] = await Promise.all([
+      getImageDimensions(originalFile),
+      createThumbnail(processedFile)
     ]);
 
+    // IndexedDB stores Blobs natively, with no base64 overhead
     const historyItem: ImageHistoryItem = {
       originalFileName: originalFile.name,
-      originalImageData,
-      processedImageData,
+      fileNameLower: originalFile.name.toLowerCase(),
+      originalImage: originalFile,
+      processedImage: processedFile,
+      mask,
       fileSize: originalFile.size,
       timestamp: Date.now(),
+      lastViewedAt: Date.now(),
+      thumbnailBytes: thumbnail.size,
       metadata: {
         width: dimensions.width,
         height: dimensions.height,
@@ -62,16 +186,65 @@ export const saveImageToHistory = async (
       }
     };
 
-    const id = await db.imageHistory.add(historyItem);
+    const id = await db.transaction('rw', [db.imageHistory, db.thumbnails, db.historyStats], async () => {
+      const id = await db.imageHistory.add(historyItem);
+      await db.thumbnails.put({ historyId: id, image: thumbnail });
+      await adjustStats(entryTotals(historyItem));
+      return id;
+    });
+
+    // The new item was just viewed, so it is never the one evicted
+    storageManager.enforcePolicy().catch(() => {});
     return id;
   } catch (error) {
     console.error('Error saving image to history:', error);
+    if (isQuotaExceededError(error)) {
+      storageManager.notifyQuotaExceeded();
+      throw new Error('Storage is full. Delete some images from history to keep saving.');
+    }
     throw new Error('Failed to save image to history');
   }
 };
 
 /**
- * Get all images from history, sorted by timestamp (newest first)
+ * Add an item restored from elsewhere (e.g. an exported archive), keeping its
+ * timestamps. Returns null without writing if the same image is already in
+ * history, matched by filename, timestamp and size.
+ */
+export const importHistoryItem = async (
+  item: Omit<ImageHistoryItem, 'id' | 'fileNameLower' | 'thumbnailBytes'>
+): Promise<number | null> => {
+  try {
+    await storageManager.checkQuota(item.originalImage.size + item.processedImage.size + (item.mask?.size ?? 0));
+    const thumbnail = await createThumbnail(item.processedImage);
+
+    return await db.transaction('rw', [db.imageHistory, db.thumbnails, db.historyStats], async () => {
+      const duplicate = await db.imageHistory
+        .where('timestamp')
+        .equals(item.timestamp)
+        .filter(existing => existing.originalFileName === item.originalFileName && existing.fileSize === item.fileSize)
+        .first();
+      if (duplicate) return null;
+
+      const entry = { ...item, fileNameLower: item.originalFileName.toLowerCase(), thumbnailBytes: thumbnail.size };
+      const id = await db.imageHistory.add(entry);
+      await db.thumbnails.put({ historyId: id, image: thumbnail });
+      await adjustStats(entryTotals(entry));
+      return id;
+    });
+  } catch (error) {
+    console.error('Error importing image into history:', error);
+    if (isQuotaExceededError(error)) {
+      storageManager.notifyQuotaExceeded();
+      throw new Error('Storage is full. Delete some images from history to keep importing.', { cause: error });
+    }
+    throw new Error('Failed to import image into history');
+  }
+};
+
+/**
+ * Get all images from history, sorted by timestamp (newest first).
+ * The image Blobs are disk-backed handles; their bytes are only read when used.
  */
 export const getImageHistory = async (): Promise<ImageHistoryItem[]> => {
   try {
@@ -82,6 +255,85 @@ export const getImageHistory = async (): Promise<ImageHistoryItem[]> => {
   }
 };
 
+/**
+ * Get one page of history matching a query. Pass the previous page's
+ * nextCursor to continue; nextCursor is absent on the last page.
+ */
+export const queryImageHistory = async (
+  query: HistoryQuery = {},
+  cursor?: HistoryCursor,
+  limit: number = 12
+): Promise<HistoryPage> => {
+  try {
+    // Fetch one extra row to learn whether another page follows
+    const rows = await historyCollection(query, cursor).limit(limit + 1).toArray();
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+
+    const nextCursor = rows.length > limit
+      ? { key: query.searchTerm?.trim() ? last.fileNameLower : last.timestamp, id: last.id! }
+      : undefined;
+
+    return { items, nextCursor };
+  } catch (error) {
+    console.error('Error querying image history:', error);
+    throw new Error('Failed to query image history');
+  }
+};
+
+/**
+ * Count history items matching a query, using index-only counts where possible
+ */
+export const countImageHistory = async (query: HistoryQuery = {}): Promise<number> => {
+  try {
+    if (!query.searchTerm?.trim() && query.from === undefined && query.to === undefined) {
+      return (await getHistoryStats()).totalImages;
+    }
+    return await historyCollection(query).count();
+  } catch (error) {
+    console.error('Error counting image history:', error);
+    throw new Error('Failed to count image history');
+  }
+};
+
+/**
+ * Get gallery thumbnails for the given history items, keyed by history ID.
+ * Items saved before thumbnails existed get one generated and stored on first request.
+ */
+export const getThumbnails = async (items: ImageHistoryItem[]): Promise<Map<number, Blob>> => {
+  const ids = items.map(item => item.id!);
+  const thumbnails = new Map<number, Blob>();
+
+  try {
+    const stored = await db.thumbnails.bulkGet(ids);
+    stored.forEach((thumbnail, index) => {
+      if (thumbnail) thumbnails.set(ids[index], thumbnail.image);
+    });
+
+    // One at a time, so a backfill never holds more than one full-size image decoded
+    for (const item of items) {
+      if (thumbnails.has(item.id!)) continue;
+      try {
+        const image = await createThumbnail(item.processedImage);
+        await db.transaction('rw', [db.imageHistory, db.thumbnails, db.historyStats], async () => {
+          // The entry may have been deleted while the thumbnail was being made
+          if (await db.imageHistory.update(item.id!, { thumbnailBytes: image.size }) === 0) return;
+          await db.thumbnails.put({ historyId: item.id!, image });
+          await adjustStats({ thumbnails: 1, thumbnailBytes: image.size });
+        });
+        thumbnails.set(item.id!, image);
+      } catch (error) {
+        console.error('Error generating thumbnail for history item', item.id, error);
+      }
+    }
+
+    return thumbnails;
+  } catch (error) {
+    console.error('Error retrieving thumbnails:', error);
+    throw new Error('Failed to retrieve thumbnails');
+  }
+};
+
 /**
  * Get a specific image from history by ID
  */
@@ -99,12 +351,27 @@ export const getImageFromHistory = async (id: number): Promise<ImageHistoryItem
  */
 export const updateImageInHistory = async (
   id: number,
-  editedImageData: string
+  editedImage: Blob,
+  editState?: EditState
 ): Promise<void> => {
   try {
-    await db.imageHistory.update(id, {
-      processedImageData: editedImageData,
-      timestamp: Date.now() // Update timestamp to show it was recently edited
+    const thumbnail = await createThumbnail(editedImage);
+    await db.transaction('rw', [db.imageHistory, db.thumbnails, db.historyStats], async () => {
+      const existing = await db.imageHistory.get(id);
+      if (!existing) return;
+
+      await db.imageHistory.update(id, {
+        processedImage: editedImage,
+        editState,
+        timestamp: Date.now(), // Update timestamp to show it was recently edited
+        thumbnailBytes: thumbnail.size
+      });
+      await db.thumbnails.put({ historyId: id, image: thumbnail });
+      await adjustStats({
+        storedBytes: editedImage.size - existing.processedImage.size,
+        thumbnails: existing.thumbnailBytes > 0 ? 0 : 1,
+        thumbnailBytes: thumbnail.size - existing.thumbnailBytes
+      });
     });
   } catch (error) {
     console.error('Error updating image in history:', error);
@@ -112,24 +379,87 @@ export const updateImageInHistory = async (
   }
 };
 
+/**
+ * Record that an image was opened, for least-recently-viewed eviction
+ */
+export const markImageViewed = async (id: number): Promise<void> => {
+  try {
+    await db.imageHistory.update(id, { lastViewedAt: Date.now() });
+  } catch (error) {
+    // Not worth interrupting the user over
+    console.error('Error marking image as viewed:', error);
+  }
+};
+
 /**
  * Delete a specific image from history
  */
 export const deleteImageFromHistory = async (id: number): Promise<void> => {
+  await deleteImagesFromHistory([id]);
+};
+
+/**
+ * Delete several images from history, along with their thumbnails
+ */
+export const deleteImagesFromHistory = async (ids: number[]): Promise<void> => {
   try {
-    await db.imageHistory.delete(id);
+    await db.transaction('rw', [db.imageHistory, db.thumbnails, db.historyStats], async () => {
+      const items = (await db.imageHistory.bulkGet(ids)).filter(item => item !== undefined);
+      if (items.length === 0) return;
+
+      const existingIds = items.map(item => item.id!);
+      await db.imageHistory.bulkDelete(existingIds);
+      await db.thumbnails.bulkDelete(existingIds);
+
+      const removed = items.map(entryTotals);
+      await adjustStats({
+        totalImages: -items.length,
+        totalSize: -removed.reduce((sum, totals) => sum + totals.totalSize, 0),
+        storedBytes: -removed.reduce((sum, totals) => sum + totals.storedBytes, 0),
+        thumbnails: -removed.reduce((sum, totals) => sum + totals.thumbnails, 0),
+        thumbnailBytes: -removed.reduce((sum, totals) => sum + totals.thumbnailBytes, 0)
+      });
+    });
   } catch (error) {
-    console.error('Error deleting image from history:', error);
+    console.error('Error deleting images from history:', error);
     throw new Error('Failed to delete image from history');
   }
 };
 
+/**
+ * Delete the thumbnails of several history entries, keeping the entries.
+ * The gallery makes new ones the next time it shows them.
+ */
+export const deleteThumbnails = async (ids: number[]): Promise<void> => {
+  try {
+    await db.transaction('rw', [db.imageHistory, db.thumbnails, db.historyStats], async () => {
+      const items = (await db.imageHistory.bulkGet(ids))
+        .filter((item): item is ImageHistoryItem => item !== undefined && item.thumbnailBytes > 0);
+      if (items.length === 0) return;
+
+      await db.thumbnails.bulkDelete(items.map(item => item.id!));
+      await db.imageHistory.bulkUpdate(items.map(item => ({ key: item.id!, changes: { thumbnailBytes: 0 } })));
+      await adjustStats({
+        thumbnails: -items.length,
+        thumbnailBytes: -items.reduce((sum, item) => sum + item.thumbnailBytes, 0)
+      });
+    });
+  } catch (error) {
+    console.error('Error deleting thumbnails:', error);
+    throw new Error('Failed to delete thumbnails');
+  }
+};
+
 /**
  * Clear all images from history
  */
 export const clearImageHistory = async (): Promise<void> => {
   try {
-    await db.imageHistory.clear();
+    await db.transaction('rw', [db.imageHistory, db.thumbnails, db.historyStats], async () => {
+      await db.imageHistory.clear();
+      await db.thumbnails.clear();
+      await db.historyStats.put(EMPTY_STATS);
+    });
   } catch (error) {
     console.error('Error clearing image history:', error);
     throw new Error('Failed to clear image history');
@@ -144,10 +474,7 @@ export const getHistoryStats = async (): Promise<{
   totalSize: number;
 }> => {
   try {
-    const items = await db.imageHistory.toArray();
-    const totalImages = items.length;
-    const totalSize = items.reduce((sum, item) => sum + item.fileSize, 0);
-    
+    const { totalImages, totalSize } = await db.historyStats.get('totals') ?? EMPTY_STATS;
     return { totalImages, totalSize };
   } catch (error) {
     console.error('Error getting history stats:', error);
@@ -156,16 +483,8 @@ export const getHistoryStats = async (): Promise<{
 };
 
 /**
- * Convert base64 to File object
+ * Wrap a stored Blob as a File so it can go back through the editing/processing flow
  */
-export const base64ToFile = (base64: string, filename: string, mimeType: string): File => {
-  const byteCharacters = atob(base64.split(',')[1]);
-  const byteNumbers = new Array(byteCharacters.length);
-  
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
-  }
-  
-  const byteArray = new Uint8Array(byteNumbers);
-  return new File([byteArray], filename, { type: mimeType });
+export const blobToFile = (blob: Blob, filename: string, mimeType: string = blob.type): File => {
+  return new File([blob], filename, { type: mimeType });
 };
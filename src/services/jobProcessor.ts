@@ -1,42 +1,109 @@
-import { processImage, ProcessingProgressCallback } from '../../../lib/process';
+import { isAbortError, ProcessingProgressCallback } from '../../lib/process';
+import { isVideoFile } from '../../lib/video';
+import { findImageSequence } from '../../lib/temporal';
+import type { JobOptions } from '../types';
 import { saveImageToHistory } from './historyService';
+import { workerManager, videoWorkerManager } from './workerManager';
 import {
   createJobBatch,
   createProcessingJob,
   updateJobProgress,
   completeJob,
+  cancelJob,
+  failJob,
+  createJobAbortController,
+  releaseJobAbortController,
+  resetInterruptedJobs,
   jobEventEmitter
 } from './jobService';
 
-export interface JobProcessorOptions {
-  enableNotifications?: boolean;
-  batchName?: string;
+export interface JobProcessorOptions extends JobOptions {
+  signal?: AbortSignal; // Aborting cancels the job(s), just like cancelJob
+}
+
+export interface JobResult {
+  jobId: string;
+  processedFile?: File;
+  mask?: File; // Images only
+  historyId?: number; // Images only, once saved to history
+  error?: string;
+}
+
+export interface ProcessFilesHandlers {
+  onJobCreated?: (file: File, jobId: string) => void; // Before any file starts processing
+  onResult?: (file: File, result: JobResult) => void; // As soon as the file is done, failed included
+}
+
+// Everything but the signal, which can't be stored
+function toJobOptions({
+  enableNotifications,
+  batchName,
+  video,
+  temporal,
+  highResolution,
+  matting,
+  estimateForeground
+}: JobProcessorOptions): JobOptions {
+  return { enableNotifications, batchName, video, temporal, highResolution, matting, estimateForeground };
+}
+
+// Jobs and batch runs still using each sequence's temporal filter
+const sequenceHolds = new Map<string, number>();
+
+function holdSequence(sequenceId: string): void {
+  sequenceHolds.set(sequenceId, (sequenceHolds.get(sequenceId) ?? 0) + 1);
+}
+
+// The filter is dropped once nothing uses it, so retried frames still find it
+function releaseSequence(sequenceId: string): void {
+  const holds = (sequenceHolds.get(sequenceId) ?? 1) - 1;
+  if (holds > 0) {
+    sequenceHolds.set(sequenceId, holds);
+    return;
+  }
+  sequenceHolds.delete(sequenceId);
+  workerManager.endSequence(sequenceId);
+}
+
+function notify(options: JobProcessorOptions, title: string, body: string): void {
+  if (options.enableNotifications && 'Notification' in window) {
+    if (Notification.permission === 'granted') {
+      new Notification(title, { body, icon: '/favicon.ico' });
+    }
+  }
 }
 
 /**
- * Process a single file with job tracking
+ * Run an existing job to completion. Images are processed in the worker pool,
+ * videos on a worker of their own. The job can be cancelled through
+ * cancelJob(jobId) or options.signal; either way it ends up 'cancelled' and
+ * the promise rejects with an AbortError. Frames of an image sequence share
+ * one sequenceId, so their masks are smoothed together.
  */
-export async function processFileWithJob(
+async function runProcessingJob(
+  jobId: string,
   file: File,
-  batchId?: string,
-  options: JobProcessorOptions = {}
-): Promise<{ jobId: string; processedFile?: File; historyId?: number }> {
-  // Create batch if not provided
-  const finalBatchId = batchId || await createJobBatch(options.batchName);
-  
-  // Create job
-  const jobId = await createProcessingJob(file, finalBatchId);
+  options: JobProcessorOptions,
+  controller: AbortController = createJobAbortController(jobId),
+  sequenceId?: string
+): Promise<JobResult> {
+  const { signal } = controller;
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', forwardAbort, { once: true });
 
   try {
+    if (options.signal?.aborted) controller.abort();
+    signal.throwIfAborted();
+
     // Update job status to processing
     await updateJobProgress(jobId, 0, 'processing');
 
     // Create progress callback
-    const progressCallback: ProcessingProgressCallback = async (progress, stage) => {
+    const startTime = Date.now();
+    const progressCallback: ProcessingProgressCallback = async (progress) => {
       // Estimate time remaining based on progress
-      const startTime = Date.now();
       let estimatedTimeRemaining: number | undefined;
-      
+
       if (progress > 5) {
         const elapsedTime = Date.now() - startTime;
         const estimatedTotalTime = (elapsedTime / progress) * 100;
@@ -46,77 +113,131 @@ export async function processFileWithJob(
       await updateJobProgress(jobId, progress, 'processing', estimatedTimeRemaining);
     };
 
-    // Process the image
-    const processedFile = await processImage(file, progressCallback);
+    // Videos report progress per frame; images through the pipeline stages
+    const { cutout: processedFile, mask } = isVideoFile(file)
+      ? {
+          cutout: await videoWorkerManager.processVideo(
+            jobId,
+            file,
+            { ...options.video, temporal: options.temporal },
+            progressCallback,
+            signal
+          ),
+          mask: undefined
+        }
+      : await workerManager.processImage(jobId, file, {
+          temporal: sequenceId && options.temporal ? { ...options.temporal, sequenceId } : undefined,
+          highResolution: options.highResolution,
+          matting: options.matting,
+          estimateForeground: options.estimateForeground
+        }, progressCallback, signal);
+
+    // Don't keep results for a job that was cancelled while it finished up
+    signal.throwIfAborted();
 
-    // Save to history
-    const historyId = await saveImageToHistory(file, processedFile);
+    // History only holds images
+    const historyId = isVideoFile(file) ? undefined : await saveImageToHistory(file, processedFile, mask);
 
     // Mark job as completed
     await completeJob(jobId, processedFile, historyId);
 
-    // Send notification if enabled
-    if (options.enableNotifications && 'Notification' in window) {
-      if (Notification.permission === 'granted') {
-        new Notification('Background Removal Complete', {
-          body: `${file.name} has been processed successfully`,
-          icon: '/favicon.ico'
-        });
-      }
-    }
+    notify(options, 'Background Removal Complete', `${file.name} has been processed successfully`);
 
-    return { jobId, processedFile, historyId };
+    return { jobId, processedFile, mask, historyId };
   } catch (error) {
-    // Mark job as failed
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    await updateJobProgress(jobId, 0, 'failed', undefined, errorMessage);
-
-    // Send error notification if enabled
-    if (options.enableNotifications && 'Notification' in window) {
-      if (Notification.permission === 'granted') {
-        new Notification('Background Removal Failed', {
-          body: `Failed to process ${file.name}: ${errorMessage}`,
-          icon: '/favicon.ico'
-        });
-      }
+    if (isAbortError(error)) {
+      // No-op if cancelJob already ran; covers aborts through options.signal
+      await cancelJob(jobId);
+      throw error;
     }
 
+    // Mark job as failed; transient errors get retried automatically
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await failJob(jobId, error);
+
+    notify(options, 'Background Removal Failed', `Failed to process ${file.name}: ${errorMessage}`);
+
     throw error;
+  } finally {
+    options.signal?.removeEventListener('abort', forwardAbort);
+    releaseJobAbortController(jobId);
   }
 }
 
 /**
- * Process multiple files with job tracking
+ * Process a single file with job tracking
+ */
+export async function processFileWithJob(
+  file: File,
+  batchId?: string,
+  options: JobProcessorOptions = {}
+): Promise<JobResult> {
+  // Create batch if not provided
+  const finalBatchId = batchId || await createJobBatch(options.batchName);
+  
+  // Create job
+  const jobId = await createProcessingJob(file, finalBatchId, toJobOptions(options));
+
+  return runProcessingJob(jobId, file, options);
+}
+
+/**
+ * Process multiple files with job tracking. Every file gets its job up front,
+ * so the whole batch shows in the queue and any of it can be cancelled before
+ * it starts. Cancelled files are left out of the results.
  */
 export async function processFilesWithJobs(
   files: File[],
-  options: JobProcessorOptions = {}
-): Promise<Array<{ jobId: string; processedFile?: File; historyId?: number; error?: string }>> {
+  options: JobProcessorOptions = {},
+  { onJobCreated, onResult }: ProcessFilesHandlers = {}
+): Promise<JobResult[]> {
   // Create batch for all files
   const batchId = await createJobBatch(
     options.batchName || `Batch of ${files.length} images`
   );
 
-  const results: Array<{ jobId: string; processedFile?: File; historyId?: number; error?: string }> = [];
+  // Numbered frames are processed in order so their masks can be smoothed
+  const sequence = options.temporal ? findImageSequence(files) : null;
+  const sequenceId = sequence ? batchId : undefined;
+  if (sequenceId) holdSequence(sequenceId);
 
-  // Process files sequentially to avoid overwhelming the system
-  for (const file of files) {
-    try {
-      const result = await processFileWithJob(file, batchId, options);
-      results.push(result);
-    } catch (error) {
-      const jobId = await createProcessingJob(file, batchId);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      await updateJobProgress(jobId, 0, 'failed', undefined, errorMessage);
-      
-      results.push({
-        jobId,
-        error: errorMessage
-      });
-    }
+  const jobs: Array<{ file: File; jobId: string; controller: AbortController }> = [];
+  for (const file of sequence ?? files) {
+    const jobId = await createProcessingJob(file, batchId, toJobOptions(options), sequenceId);
+    jobs.push({ file, jobId, controller: createJobAbortController(jobId) });
   }
+  jobs.forEach(({ file, jobId }) => onJobCreated?.(file, jobId));
 
-  return results;
+  const results: Array<JobResult | undefined> = new Array(jobs.length);
+  let next = 0;
+
+  // Once options.signal aborts, each job left is cancelled as soon as it comes up
+  const runJobs = async (): Promise<void> => {
+    while (next < jobs.length) {
+      const index = next++;
+      const { file, jobId, controller } = jobs[index];
+
+      try {
+        results[index] = await runProcessingJob(jobId, file, options, controller, sequenceId);
+      } catch (error) {
+        if (isAbortError(error)) continue;
+
+        // runProcessingJob has already marked the job as failed
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        results[index] = { jobId, error: errorMessage };
+      }
+      onResult?.(file, results[index]!);
+    }
+  };
+
+  // A sequence shares one filter and runs frame by frame; other files keep the whole pool busy
+  const concurrency = sequence ? 1 : Math.min(jobs.length, workerManager.getPoolSize());
+  try {
+    await Promise.all(Array.from({ length: concurrency }, runJobs));
+  } finally {
+    if (sequenceId) releaseSequence(sequenceId);
+  }
+  return results.filter((result): result is JobResult => result !== undefined);
 }
 
 /**
@@ -135,19 +256,29 @@ export async function requestNotificationPermission(): Promise<NotificationPermi
   return Notification.permission;
 }
 
+interface QueuedJob {
+  file: File;
+  batchId: string;
+  jobId: string;
+  options: JobProcessorOptions;
+  sequenceId?: string;
+  controller: AbortController;
+}
+
 /**
- * Background job processor that can run in a Web Worker context
+ * Queues jobs and keeps as many running as the worker pool has workers
  */
 export class BackgroundJobProcessor {
-  private isProcessing = false;
-  private processingQueue: Array<{
-    file: File;
-    batchId: string;
-    jobId: string;
-    options: JobProcessorOptions;
-  }> = [];
+  private processingQueue: QueuedJob[] = [];
+  private activeJobs: Set<string> = new Set();
+  private maxConcurrentJobs: number;
 
-  constructor(private maxConcurrentJobs = 1) {}
+  /**
+   * @param maxConcurrentJobs Jobs handed to the pool at once; defaults to the pool size
+   */
+  constructor(maxConcurrentJobs = workerManager.getPoolSize()) {
+    this.maxConcurrentJobs = maxConcurrentJobs;
+  }
 
   /**
    * Add a job to the processing queue
@@ -158,104 +289,78 @@ export class BackgroundJobProcessor {
     options: JobProcessorOptions = {}
   ): Promise<string> {
     const finalBatchId = batchId || await createJobBatch(options.batchName);
-    const jobId = await createProcessingJob(file, finalBatchId);
+    const jobId = await createProcessingJob(file, finalBatchId, toJobOptions(options));
+
+    this.requeueJob(jobId, file, finalBatchId, options);
+    return jobId;
+  }
 
+  /**
+   * Put an existing job (e.g. one being retried) back on the queue. A frame of
+   * an image sequence keeps its sequenceId, so it is smoothed with the others.
+   */
+  requeueJob(
+    jobId: string,
+    file: File,
+    batchId: string,
+    options: JobProcessorOptions = {},
+    sequenceId?: string
+  ): void {
+    if (sequenceId) holdSequence(sequenceId);
     this.processingQueue.push({
       file,
-      batchId: finalBatchId,
+      batchId,
       jobId,
-      options
+      options,
+      sequenceId,
+      // Registered up front so a job cancelled while still queued never starts
+      controller: createJobAbortController(jobId)
     });
 
-    // Start processing if not already running
-    if (!this.isProcessing) {
-      this.processQueue();
-    }
-
-    return jobId;
+    this.processQueue();
   }
 
   /**
-   * Process the job queue
+   * Start queued jobs until the concurrency limit is reached
    */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.processingQueue.length === 0) {
-      return;
-    }
-
-    this.isProcessing = true;
-
-    while (this.processingQueue.length > 0) {
-      const job = this.processingQueue.shift();
-      if (!job) continue;
-
-      try {
-        await this.processJob(job);
-      } catch (error) {
-        console.error('Error processing job:', error);
-      }
+  private processQueue(): void {
+    while (this.activeJobs.size < this.maxConcurrentJobs && this.processingQueue.length > 0) {
+      const job = this.processingQueue.shift()!;
+      this.activeJobs.add(job.jobId);
+
+      this.processJob(job)
+        .catch(error => console.error('Error processing job:', error))
+        .finally(() => {
+          this.activeJobs.delete(job.jobId);
+          if (job.sequenceId) releaseSequence(job.sequenceId);
+          this.processQueue();
+        });
     }
-
-    this.isProcessing = false;
   }
 
   /**
    * Process a single job
    */
-  private async processJob(job: {
-    file: File;
-    batchId: string;
-    jobId: string;
-    options: JobProcessorOptions;
-  }): Promise<void> {
-    const { file, jobId, options } = job;
+  private async processJob(job: QueuedJob): Promise<void> {
+    const { file, jobId, options, controller, sequenceId } = job;
 
     try {
-      // Update job status to processing
-      await updateJobProgress(jobId, 0, 'processing');
-
-      // Create progress callback
-      const progressCallback: ProcessingProgressCallback = async (progress, stage) => {
-        await updateJobProgress(jobId, progress, 'processing');
-      };
-
-      // Process the image
-      const processedFile = await processImage(file, progressCallback);
-
-      // Save to history
-      const historyId = await saveImageToHistory(file, processedFile);
-
-      // Mark job as completed
-      await completeJob(jobId, processedFile, historyId);
-
-      // Send notification if enabled
-      if (options.enableNotifications && 'Notification' in window) {
-        if (Notification.permission === 'granted') {
-          new Notification('Background Removal Complete', {
-            body: `${file.name} has been processed successfully`,
-            icon: '/favicon.ico'
-          });
-        }
-      }
+      await runProcessingJob(jobId, file, options, controller, sequenceId);
     } catch (error) {
-      // Mark job as failed
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      await updateJobProgress(jobId, 0, 'failed', undefined, errorMessage);
-
-      // Send error notification if enabled
-      if (options.enableNotifications && 'Notification' in window) {
-        if (Notification.permission === 'granted') {
-          new Notification('Background Removal Failed', {
-            body: `Failed to process ${file.name}: ${errorMessage}`,
-            icon: '/favicon.ico'
-          });
-        }
-      }
-
-      throw error;
+      // A cancelled job is already marked as such; only real failures propagate
+      if (!isAbortError(error)) throw error;
     }
   }
 
+  /**
+   * Change the concurrency limit, resizing the worker pool to match
+   */
+  setMaxConcurrentJobs(maxConcurrentJobs: number): void {
+    this.maxConcurrentJobs = Math.max(1, maxConcurrentJobs);
+    workerManager.setPoolSize(this.maxConcurrentJobs);
+    this.processQueue();
+  }
+
   /**
    * Get the current queue length
    */
@@ -267,6 +372,10 @@ export class BackgroundJobProcessor {
    * Clear the processing queue
    */
   clearQueue(): void {
+    this.processingQueue.forEach(job => {
+      releaseJobAbortController(job.jobId);
+      if (job.sequenceId) releaseSequence(job.sequenceId);
+    });
     this.processingQueue = [];
   }
 
@@ -274,9 +383,41 @@ export class BackgroundJobProcessor {
    * Check if processor is currently processing
    */
   getIsProcessing(): boolean {
-    return this.isProcessing;
+    return this.activeJobs.size > 0;
   }
 }
 
 // Global background processor instance
 export const backgroundJobProcessor = new BackgroundJobProcessor();
+
+// Retried jobs (manual or automatic) run through the background processor, as they were first set up
+jobEventEmitter.onJobRetry(({ jobId, file, batchId, options, sequenceId }) => {
+  backgroundJobProcessor.requeueJob(jobId, file, batchId, options, sequenceId);
+});
+
+let resumePromise: Promise<number> | null = null;
+
+/**
+ * Pick up jobs left unfinished by a previous page load and queue them again
+ * from their stored original files and options. Returns how many jobs were
+ * resumed. Only the first call per page load does any work.
+ */
+export function resumeInterruptedJobs(): Promise<number> {
+  resumePromise ??= resumeJobs().catch(error => {
+    resumePromise = null; // Allow another attempt, e.g. once the model can load
+    throw error;
+  });
+  return resumePromise;
+}
+
+async function resumeJobs(): Promise<number> {
+  const jobs = await resetInterruptedJobs();
+  if (jobs.length === 0) return 0;
+
+  // The worker pool loads the saved model as soon as it has work; sequence
+  // frames start a fresh filter, as the old one went with the previous page
+  for (const job of jobs) {
+    backgroundJobProcessor.requeueJob(job.id, job.originalFile, job.batchId, job.options, job.sequenceId);
+  }
+  return jobs.length;
+}
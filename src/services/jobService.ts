@@ -1,5 +1,21 @@
 import { db } from '../db';
-import { ProcessingJob, JobBatch, JobStatus, JobProgressUpdate, BatchProgressUpdate } from '../types';
+import {
+  ProcessingJob,
+  JobBatch,
+  JobStatus,
+  JobAttempt,
+  JobProgressUpdate,
+  BatchProgressUpdate,
+  JobOptions
+} from '../types';
+
+export interface JobRetryRequest {
+  jobId: string;
+  batchId: string;
+  file: File;
+  options: JobOptions;
+  sequenceId?: string;
+}
 
 // Event emitter for real-time updates
 class JobEventEmitter extends EventTarget {
@@ -11,21 +27,75 @@ class JobEventEmitter extends EventTarget {
     this.dispatchEvent(new CustomEvent('batchUpdate', { detail: update }));
   }
 
-  onJobUpdate(callback: (update: JobProgressUpdate) => void) {
-    this.addEventListener('jobUpdate', (event) => {
+  /**
+   * Subscribe to job updates. Returns a function that removes the listener.
+   */
+  onJobUpdate(callback: (update: JobProgressUpdate) => void): () => void {
+    const listener = (event: Event) => {
       callback((event as CustomEvent<JobProgressUpdate>).detail);
-    });
+    };
+    this.addEventListener('jobUpdate', listener);
+    return () => this.removeEventListener('jobUpdate', listener);
   }
 
-  onBatchUpdate(callback: (update: BatchProgressUpdate) => void) {
-    this.addEventListener('batchUpdate', (event) => {
+  /**
+   * Subscribe to batch updates. Returns a function that removes the listener.
+   */
+  onBatchUpdate(callback: (update: BatchProgressUpdate) => void): () => void {
+    const listener = (event: Event) => {
       callback((event as CustomEvent<BatchProgressUpdate>).detail);
-    });
+    };
+    this.addEventListener('batchUpdate', listener);
+    return () => this.removeEventListener('batchUpdate', listener);
+  }
+
+  emitJobRetry(request: JobRetryRequest) {
+    this.dispatchEvent(new CustomEvent('jobRetry', { detail: request }));
+  }
+
+  /**
+   * Subscribe to job retries. Returns a function that removes the listener.
+   */
+  onJobRetry(callback: (request: JobRetryRequest) => void): () => void {
+    const listener = (event: Event) => {
+      callback((event as CustomEvent<JobRetryRequest>).detail);
+    };
+    this.addEventListener('jobRetry', listener);
+    return () => this.removeEventListener('jobRetry', listener);
   }
 }
 
 export const jobEventEmitter = new JobEventEmitter();
 
+export const MAX_JOB_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// Errors worth retrying as-is: the GPU or network went away, not the image being bad
+const TRANSIENT_ERROR_PATTERN = /device (was |is )?lost|context lost|failed to fetch|network ?error|load failed|timed? ?out/i;
+
+// Pending automatic retries, keyed by job ID
+const autoRetryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Abort controllers for jobs that are queued or running, keyed by job ID
+const jobAbortControllers = new Map<string, AbortController>();
+
+/**
+ * Register an AbortController for a job so that cancelJob can stop it mid-flight
+ */
+export function createJobAbortController(jobId: string): AbortController {
+  const controller = new AbortController();
+  jobAbortControllers.set(jobId, controller);
+  return controller;
+}
+
+/**
+ * Forget a job's AbortController once the job has settled
+ */
+export function releaseJobAbortController(jobId: string): void {
+  jobAbortControllers.delete(jobId);
+}
+
 /**
  * Generate a unique ID for jobs and batches
  */
@@ -58,7 +128,9 @@ export async function createJobBatch(name?: string): Promise<string> {
  */
 export async function createProcessingJob(
   file: File,
-  batchId: string
+  batchId: string,
+  options: JobOptions = {},
+  sequenceId?: string
 ): Promise<string> {
   const jobId = generateId();
   const job: ProcessingJob = {
@@ -69,7 +141,11 @@ export async function createProcessingJob(
     status: 'pending',
     progress: 0,
     startTime: Date.now(),
-    originalFile: file
+    originalFile: file,
+    options,
+    sequenceId,
+    attempts: 1,
+    attemptLog: []
   };
 
   await db.processingJobs.add(job);
@@ -115,10 +191,25 @@ export async function updateJobProgress(
     updateData.status = 'failed';
   }
 
-  await db.processingJobs.update(jobId, updateData);
+  const job = await db.transaction('rw', db.processingJobs, async () => {
+    const existing = await db.processingJobs.get(jobId);
+    // Cancellation is final: late progress from a stage that was already running is dropped
+    if (!existing || existing.status === 'cancelled') return undefined;
+
+    if (error) {
+      const attempt: JobAttempt = {
+        attempt: existing.attempts,
+        error,
+        startTime: existing.startTime,
+        endTime: updateData.endTime ?? Date.now()
+      };
+      updateData.attemptLog = [...existing.attemptLog, attempt];
+    }
+
+    await db.processingJobs.update(jobId, updateData);
+    return { ...existing, ...updateData };
+  });
 
-  // Get updated job for event emission
-  const job = await db.processingJobs.get(jobId);
   if (job) {
     // Emit job update event
     jobEventEmitter.emitJobUpdate({
@@ -145,6 +236,7 @@ export async function updateBatchProgress(batchId: string): Promise<void> {
 
   const completedJobs = jobs.filter(job => job.status === 'completed').length;
   const failedJobs = jobs.filter(job => job.status === 'failed').length;
+  const cancelledJobs = jobs.filter(job => job.status === 'cancelled').length;
   const processingJobs = jobs.filter(job => job.status === 'processing').length;
   
   // Calculate overall progress
@@ -159,8 +251,10 @@ export async function updateBatchProgress(batchId: string): Promise<void> {
     batchStatus = 'completed';
   } else if (failedJobs === jobs.length) {
     batchStatus = 'failed';
-  } else if (completedJobs + failedJobs === jobs.length) {
-    batchStatus = 'completed'; // Some completed, some failed
+  } else if (cancelledJobs === jobs.length) {
+    batchStatus = 'cancelled';
+  } else if (completedJobs + failedJobs + cancelledJobs === jobs.length) {
+    batchStatus = 'completed'; // Some completed, some failed or cancelled
   }
 
   // Calculate estimated time remaining
@@ -184,8 +278,10 @@ export async function updateBatchProgress(batchId: string): Promise<void> {
     estimatedTimeRemaining
   };
 
-  if (batchStatus === 'completed' || batchStatus === 'failed') {
+  if (batchStatus === 'completed' || batchStatus === 'failed' || batchStatus === 'cancelled') {
     updateData.endTime = Date.now();
+  } else {
+    updateData.endTime = undefined; // A retried job reopens a finished batch
   }
 
   await db.jobBatches.update(batchId, updateData);
@@ -219,6 +315,13 @@ export async function getAllBatches(): Promise<JobBatch[]> {
   return await db.jobBatches.orderBy('startTime').reverse().toArray();
 }
 
+/**
+ * Get a single job, e.g. to pick up the result of a retried one
+ */
+export async function getJob(jobId: string): Promise<ProcessingJob | undefined> {
+  return await db.processingJobs.get(jobId);
+}
+
 /**
  * Get jobs for a specific batch
  */
@@ -240,9 +343,61 @@ export async function getActiveJobs(): Promise<ProcessingJob[]> {
 }
 
 /**
- * Cancel a specific job
+ * Find jobs orphaned by a reload or crash (still 'pending' or 'processing' in the
+ * database but not running in this page) and put them back to 'pending'. A job
+ * that was mid-processing has the interruption logged as a failed attempt.
+ * Returns the jobs that can be resumed; ones without an original file are failed.
+ */
+export async function resetInterruptedJobs(): Promise<ProcessingJob[]> {
+  const jobs = await getActiveJobs();
+  const resumable: ProcessingJob[] = [];
+  const batchIds = new Set<string>();
+
+  for (const job of jobs) {
+    // Jobs with a controller are queued or running in this page already
+    if (jobAbortControllers.has(job.id)) continue;
+    batchIds.add(job.batchId);
+
+    if (!job.originalFile) {
+      await updateJobProgress(job.id, 0, 'failed', undefined, 'Interrupted, and the original file is no longer available');
+      continue;
+    }
+
+    if (job.status === 'processing') {
+      const attempts = job.attempts;
+      const interruption: JobAttempt = {
+        attempt: attempts,
+        error: 'Interrupted before it finished',
+        startTime: job.startTime,
+        endTime: Date.now()
+      };
+      await db.processingJobs.update(job.id, {
+        status: 'pending',
+        progress: 0,
+        estimatedTimeRemaining: undefined,
+        startTime: Date.now(),
+        attempts: attempts + 1,
+        attemptLog: [...job.attemptLog, interruption]
+      });
+    }
+
+    resumable.push(job);
+  }
+
+  for (const batchId of batchIds) {
+    await updateBatchProgress(batchId);
+  }
+
+  return resumable;
+}
+
+/**
+ * Cancel a specific job. A running job is aborted at its next stage boundary,
+ * and any result it produces afterwards is discarded.
  */
 export async function cancelJob(jobId: string): Promise<void> {
+  clearAutoRetry(jobId);
+  jobAbortControllers.get(jobId)?.abort();
   await updateJobProgress(jobId, 0, 'cancelled');
 }
 
@@ -261,27 +416,133 @@ export async function cancelBatch(batchId: string): Promise<void> {
 }
 
 /**
- * Mark job as completed with processed file
+ * Mark job as completed with processed file.
+ * Returns false if the job was cancelled in the meantime and the result was dropped.
  */
 export async function completeJob(
   jobId: string,
   processedFile: File,
   historyId?: number
-): Promise<void> {
-  await db.processingJobs.update(jobId, {
-    processedFile,
-    historyId,
-    status: 'completed',
-    progress: 100,
-    endTime: Date.now()
+): Promise<boolean> {
+  const job = await db.transaction('rw', db.processingJobs, async () => {
+    const existing = await db.processingJobs.get(jobId);
+    if (!existing || existing.status === 'cancelled') return undefined;
+
+    await db.processingJobs.update(jobId, {
+      processedFile,
+      historyId,
+      status: 'completed',
+      progress: 100,
+      endTime: Date.now()
+    });
+    return existing;
   });
 
-  const job = await db.processingJobs.get(jobId);
-  if (job) {
-    await updateBatchProgress(job.batchId);
+  if (!job) return false;
+
+  jobEventEmitter.emitJobUpdate({ jobId, progress: 100, status: 'completed' });
+  await updateBatchProgress(job.batchId);
+  return true;
+}
+
+/**
+ * Whether an error (or anything in its cause chain) looks transient enough to retry unchanged
+ */
+export function isTransientJobError(error: unknown): boolean {
+  for (let current = error; current; current = (current as Error).cause) {
+    const message = current instanceof Error ? current.message : String(current);
+    if (TRANSIENT_ERROR_PATTERN.test(message)) return true;
+    if (!(current instanceof Error)) break;
+  }
+  return false;
+}
+
+/**
+ * Exponential backoff with full jitter for the given (1-based) attempt
+ */
+function getRetryDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+function clearAutoRetry(jobId: string): void {
+  const timer = autoRetryTimers.get(jobId);
+  if (timer !== undefined) {
+    clearTimeout(timer);
+    autoRetryTimers.delete(jobId);
   }
 }
 
+/**
+ * Mark a job as failed and log the attempt. Transient errors are retried
+ * automatically with exponential backoff until MAX_JOB_ATTEMPTS is reached.
+ */
+export async function failJob(jobId: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error || 'Unknown error');
+  await updateJobProgress(jobId, 0, 'failed', undefined, message);
+
+  const job = await db.processingJobs.get(jobId);
+  if (!job || job.status !== 'failed' || !isTransientJobError(error)) return;
+
+  const attempts = job.attempts;
+  if (attempts >= MAX_JOB_ATTEMPTS) return;
+
+  const delay = getRetryDelay(attempts);
+  console.warn(`Job ${jobId} hit a transient error, retrying in ${delay}ms:`, message);
+
+  clearAutoRetry(jobId);
+  autoRetryTimers.set(jobId, setTimeout(() => {
+    autoRetryTimers.delete(jobId);
+    retryJob(jobId).catch(retryError => {
+      console.error('Automatic retry failed:', retryError);
+    });
+  }, delay));
+}
+
+/**
+ * Re-queue a failed or cancelled job from its stored original file.
+ * The job keeps its ID; its attempt counter goes up and earlier errors stay in attemptLog.
+ */
+export async function retryJob(jobId: string): Promise<void> {
+  clearAutoRetry(jobId);
+
+  const job = await db.transaction('rw', db.processingJobs, async () => {
+    const existing = await db.processingJobs.get(jobId);
+    if (!existing) {
+      throw new Error('Job not found');
+    }
+    if (existing.status !== 'failed' && existing.status !== 'cancelled') {
+      throw new Error(`Cannot retry a job that is ${existing.status}`);
+    }
+    if (!existing.originalFile) {
+      throw new Error('Original file is no longer available');
+    }
+
+    const updateData: Partial<ProcessingJob> = {
+      status: 'pending',
+      progress: 0,
+      error: undefined,
+      estimatedTimeRemaining: undefined,
+      endTime: undefined,
+      startTime: Date.now(),
+      attempts: existing.attempts + 1
+    };
+    await db.processingJobs.update(jobId, updateData);
+    return { ...existing, ...updateData };
+  });
+
+  jobEventEmitter.emitJobUpdate({ jobId, progress: 0, status: 'pending' });
+  await updateBatchProgress(job.batchId);
+
+  jobEventEmitter.emitJobRetry({
+    jobId,
+    batchId: job.batchId,
+    file: job.originalFile,
+    options: job.options ?? {},
+    sequenceId: job.sequenceId
+  });
+}
+
 /**
  * Clean up old completed/failed jobs and batches
  */
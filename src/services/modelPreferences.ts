@@ -0,0 +1,50 @@
+import { DEFAULT_MODEL_ID, ModelDtype, getModelDefinition } from '../../lib/models';
+import type { InitializeModelOptions } from '../../lib/process';
+
+const PREFERENCES_STORAGE_KEY = 'bg-remover:model-preferences';
+
+interface ModelPreferences {
+  modelId: string;
+  dtypes: Record<string, ModelDtype>; // Chosen variant per model
+}
+
+function readPreferences(): ModelPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) ?? '{}');
+    return { modelId: DEFAULT_MODEL_ID, dtypes: {}, ...stored };
+  } catch {
+    return { modelId: DEFAULT_MODEL_ID, dtypes: {} };
+  }
+}
+
+function writePreferences(preferences: ModelPreferences): void {
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+}
+
+/**
+ * The model the user last picked, if it is still registered
+ */
+export function getPreferredModelId(): string {
+  const { modelId } = readPreferences();
+  return getModelDefinition(modelId) ? modelId : DEFAULT_MODEL_ID;
+}
+
+export function setPreferredModelId(modelId: string): void {
+  writePreferences({ ...readPreferences(), modelId });
+}
+
+export function getPreferredDtype(modelId: string): ModelDtype | undefined {
+  return readPreferences().dtypes[modelId];
+}
+
+export function setPreferredDtype(modelId: string, dtype: ModelDtype): void {
+  const preferences = readPreferences();
+  writePreferences({ ...preferences, dtypes: { ...preferences.dtypes, [modelId]: dtype } });
+}
+
+/**
+ * Options for initializeModel that load a model with the user's chosen variant
+ */
+export function getPreferredModelOptions(modelId: string = getPreferredModelId()): InitializeModelOptions {
+  return { modelId, dtype: getPreferredDtype(modelId) };
+}
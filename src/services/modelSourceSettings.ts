@@ -0,0 +1,34 @@
+import { configureModelSource, getModelSource, ModelSource } from '../../lib/modelSource';
+
+const SOURCE_STORAGE_KEY = 'bg-remover:model-source';
+
+/**
+ * Build-time defaults, so intranet deployments can ship pointing at their own
+ * model server: VITE_LOCAL_MODEL_PATH and VITE_ALLOW_REMOTE_MODELS=false
+ */
+function defaultModelSource(): ModelSource {
+  return {
+    localModelPath: import.meta.env.VITE_LOCAL_MODEL_PATH || null,
+    allowRemoteModels: import.meta.env.VITE_ALLOW_REMOTE_MODELS !== 'false'
+  };
+}
+
+/**
+ * Apply the saved model source (or the build defaults). Call before loading a model.
+ */
+export function loadModelSourceSettings(): ModelSource {
+  let stored: Partial<ModelSource> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(SOURCE_STORAGE_KEY) ?? '{}');
+  } catch {
+    // Fall back to the defaults
+  }
+
+  configureModelSource({ ...defaultModelSource(), ...stored });
+  return getModelSource();
+}
+
+export function saveModelSourceSettings(source: ModelSource): void {
+  localStorage.setItem(SOURCE_STORAGE_KEY, JSON.stringify(source));
+  configureModelSource(source);
+}
@@ -1,5 +1,3 @@
-import { JobStatus } from '../types';
-
 export interface NotificationOptions {
   title: string;
   body: string;
@@ -8,8 +6,15 @@ export interface NotificationOptions {
   tag?: string;
   requireInteraction?: boolean;
   silent?: boolean;
-  actions?: NotificationAction[];
-  data?: any;
+  actions?: Array<{ action: string; title: string; icon?: string }>; // NotificationAction, which lib.dom no longer declares
+  data?: NotificationData;
+}
+
+// What a notification is about, and what clicking it does
+export interface NotificationData {
+  jobId?: string;
+  batchId?: string;
+  onClick?: () => void;
 }
 
 export interface InAppNotification {
@@ -70,6 +75,9 @@ class NotificationService {
       return null;
     }
 
+    // Functions can't be cloned into the notification, so the click handler stays here
+    const { onClick, ...data } = options.data ?? {};
+
     try {
       const notification = new Notification(options.title, {
         body: options.body,
@@ -78,7 +86,7 @@ class NotificationService {
         tag: options.tag,
         requireInteraction: options.requireInteraction || false,
         silent: options.silent || false,
-        data: options.data
+        data
       });
 
       // Handle notification click
@@ -87,9 +95,7 @@ class NotificationService {
         notification.close();
         
         // Custom click handler from data
-        if (options.data?.onClick) {
-          options.data.onClick();
-        }
+        onClick?.();
       };
 
       return notification;
@@ -0,0 +1,292 @@
+import { db } from '../db';
+import { ImageHistoryItem } from '../types';
+import { notificationService } from './notificationService';
+import { deleteImagesFromHistory, deleteThumbnails } from './historyService';
+
+export interface EvictionPolicy {
+  maxItems?: number;
+  maxBytes?: number; // Everything history stores: images, masks and thumbnails
+  maxAgeDays?: number;
+  target: 'items' | 'thumbnails'; // What gets removed from least-recently-viewed entries
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  percentUsed: number;
+  persisted: boolean;
+}
+
+export interface TableUsage {
+  name: string;
+  rows: number;
+  bytes: number; // Approximate: only blob fields are counted, the rest of a row is tiny next to them
+}
+
+type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+const POLICY_STORAGE_KEY = 'bg-remover:eviction-policy';
+const WARNING_THRESHOLD = 0.8;
+const CRITICAL_THRESHOLD = 0.95;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// No limits: nothing is evicted until the user sets some in storage settings
+const DEFAULT_POLICY: EvictionPolicy = {
+  target: 'items'
+};
+
+/**
+ * Whether an error (possibly wrapped by Dexie or by us) means the storage quota was hit
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.name === 'QuotaExceededError') return true;
+
+  const inner = (error as { inner?: unknown }).inner ?? error.cause;
+  return inner !== undefined && isQuotaExceededError(inner);
+}
+
+/**
+ * Total size of the Blob fields of a stored row
+ */
+export function blobBytes(row: object): number {
+  let bytes = 0;
+  for (const value of Object.values(row)) {
+    if (value instanceof Blob) bytes += value.size;
+  }
+  return bytes;
+}
+
+class StorageManager {
+  private lastWarnedLevel: QuotaLevel = 'ok';
+  private warningNotificationId: string | null = null;
+
+  /**
+   * Ask the browser not to clear our data under storage pressure
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+
+    try {
+      if (await navigator.storage.persisted()) return true;
+      return await navigator.storage.persist();
+    } catch (error) {
+      console.error('Error requesting persistent storage:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get overall origin usage as reported by the browser
+   */
+  async getUsage(): Promise<StorageUsage> {
+    if (!navigator.storage?.estimate) {
+      return { usage: 0, quota: 0, percentUsed: 0, persisted: false };
+    }
+
+    try {
+      const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted?.() ?? Promise.resolve(false)
+      ]);
+
+      return {
+        usage,
+        quota,
+        percentUsed: quota > 0 ? (usage / quota) * 100 : 0,
+        persisted
+      };
+    } catch (error) {
+      console.error('Error estimating storage usage:', error);
+      throw new Error('Failed to get storage usage');
+    }
+  }
+
+  /**
+   * Break usage down by database table
+   */
+  async getTableUsage(): Promise<TableUsage[]> {
+    try {
+      // History can grow to thousands of large rows, so its sizes come from the
+      // running totals instead of a table scan
+      const stats = await db.historyStats.get('totals');
+      const usage: TableUsage[] = [
+        { name: db.imageHistory.name, rows: stats?.totalImages ?? 0, bytes: stats?.storedBytes ?? 0 },
+        { name: db.thumbnails.name, rows: stats?.thumbnails ?? 0, bytes: stats?.thumbnailBytes ?? 0 }
+      ];
+
+      for (const table of [db.jobBatches, db.processingJobs, db.sessions]) {
+        let rows = 0;
+        let bytes = 0;
+
+        // Walk rows one at a time so large blobs are never all held at once
+        await table.each((row: object) => {
+          rows++;
+          bytes += blobBytes(row);
+        });
+
+        usage.push({ name: table.name, rows, bytes });
+      }
+
+      return usage.sort((a, b) => b.bytes - a.bytes);
+    } catch (error) {
+      console.error('Error measuring table usage:', error);
+      throw new Error('Failed to get table usage');
+    }
+  }
+
+  getPolicy(): EvictionPolicy {
+    try {
+      const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+      return stored ? { ...DEFAULT_POLICY, ...JSON.parse(stored) } : DEFAULT_POLICY;
+    } catch {
+      return DEFAULT_POLICY;
+    }
+  }
+
+  setPolicy(policy: EvictionPolicy): void {
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+  }
+
+  /**
+   * Apply the eviction policy, oldest-viewed history entries first.
+   * Returns how many entries were evicted.
+   */
+  async enforcePolicy(policy: EvictionPolicy = this.getPolicy()): Promise<number> {
+    try {
+      const thumbnailsOnly = policy.target === 'thumbnails';
+      // Entry id -> bytes its eviction frees
+      const evict = new Map<number, number>();
+
+      // Removing a thumbnail leaves its entry in place, so in that mode only entries
+      // that still have one count; otherwise the same entries would be hit every time
+      const counts = (item: ImageHistoryItem) => !thumbnailsOnly || item.thumbnailBytes > 0;
+      const freedBy = (item: ImageHistoryItem) =>
+        thumbnailsOnly ? item.thumbnailBytes : blobBytes(item) + item.thumbnailBytes;
+
+      if (policy.maxAgeDays !== undefined) {
+        const cutoff = Date.now() - policy.maxAgeDays * DAY_MS;
+        await db.imageHistory.where('lastViewedAt').below(cutoff).each(item => {
+          if (counts(item)) evict.set(item.id!, freedBy(item));
+        });
+      }
+
+      if (policy.maxItems !== undefined || policy.maxBytes !== undefined) {
+        const stats = await db.historyStats.get('totals');
+        const totalItems = (thumbnailsOnly ? stats?.thumbnails : stats?.totalImages) ?? 0;
+        const totalBytes = (thumbnailsOnly ? 0 : stats?.storedBytes ?? 0) + (stats?.thumbnailBytes ?? 0);
+
+        let remainingItems = totalItems - evict.size;
+        let remainingBytes = totalBytes - [...evict.values()].reduce((sum, bytes) => sum + bytes, 0);
+        const overLimit = () =>
+          (policy.maxItems !== undefined && remainingItems > policy.maxItems) ||
+          (policy.maxBytes !== undefined && remainingBytes > policy.maxBytes);
+
+        if (overLimit()) {
+          await db.imageHistory.orderBy('lastViewedAt').until(() => !overLimit()).each(item => {
+            if (!counts(item) || evict.has(item.id!)) return;
+            const bytes = freedBy(item);
+            evict.set(item.id!, bytes);
+            remainingItems--;
+            remainingBytes -= bytes;
+          });
+        }
+      }
+
+      if (evict.size === 0) return 0;
+
+      const ids = [...evict.keys()];
+      if (thumbnailsOnly) {
+        // Thumbnails are regenerated on demand, so this frees space without losing images
+        await deleteThumbnails(ids);
+      } else {
+        await deleteImagesFromHistory(ids);
+      }
+      return ids.length;
+    } catch (error) {
+      console.error('Error enforcing eviction policy:', error);
+      throw new Error('Failed to enforce storage policy');
+    }
+  }
+
+  /**
+   * Check whether incomingBytes still fits comfortably, warning in-app as
+   * usage climbs and applying the eviction policy when close to the quota
+   */
+  async checkQuota(incomingBytes = 0): Promise<QuotaLevel> {
+    const { usage, quota } = await this.getUsage().catch(() => ({ usage: 0, quota: 0 }));
+    if (quota === 0) return 'ok';
+
+    let level = this.levelFor((usage + incomingBytes) / quota);
+    if (level === 'critical') {
+      await this.enforcePolicy().catch(() => 0);
+      const after = await this.getUsage().catch(() => ({ usage, quota }));
+      level = this.levelFor((after.usage + incomingBytes) / quota);
+    }
+
+    this.warn(level, usage + incomingBytes, quota);
+    return level;
+  }
+
+  /**
+   * Tell the user a save failed because storage is full
+   */
+  notifyQuotaExceeded(): void {
+    this.lastWarnedLevel = 'critical';
+    this.replaceWarning({
+      type: 'error',
+      title: 'Storage full',
+      message: 'Your last image could not be saved to history. Delete older images or set history limits in storage settings.'
+    });
+  }
+
+  private levelFor(ratio: number): QuotaLevel {
+    if (ratio >= CRITICAL_THRESHOLD) return 'critical';
+    if (ratio >= WARNING_THRESHOLD) return 'warning';
+    return 'ok';
+  }
+
+  private warn(level: QuotaLevel, usage: number, quota: number): void {
+    // Only speak up when things get worse, and clear the warning once they recover
+    if (level === this.lastWarnedLevel) return;
+    const worsened = level === 'critical' || (level === 'warning' && this.lastWarnedLevel === 'ok');
+    this.lastWarnedLevel = level;
+
+    if (!worsened) {
+      if (level === 'ok' && this.warningNotificationId) {
+        notificationService.dismissInAppNotification(this.warningNotificationId);
+        this.warningNotificationId = null;
+      }
+      return;
+    }
+
+    const percent = Math.round((usage / quota) * 100);
+    this.replaceWarning({
+      type: level === 'critical' ? 'error' : 'warning',
+      title: level === 'critical' ? 'Storage almost full' : 'Storage filling up',
+      message: `History is using ${percent}% of available storage. Saving new images may soon fail.`
+    });
+  }
+
+  private replaceWarning(notification: { type: 'warning' | 'error'; title: string; message: string }): void {
+    if (this.warningNotificationId) {
+      notificationService.dismissInAppNotification(this.warningNotificationId);
+    }
+    this.warningNotificationId = notificationService.showInAppNotification({
+      ...notification,
+      persistent: true
+    });
+  }
+}
+
+// Global storage manager instance
+export const storageManager = new StorageManager();
+
+// Convenience functions
+export const requestStoragePersistence = () => storageManager.requestPersistence();
+export const getStorageUsage = () => storageManager.getUsage();
+export const getTableUsage = () => storageManager.getTableUsage();
+export const getEvictionPolicy = () => storageManager.getPolicy();
+export const setEvictionPolicy = (policy: EvictionPolicy) => storageManager.setPolicy(policy);
+export const enforceEvictionPolicy = (policy?: EvictionPolicy) => storageManager.enforcePolicy(policy);
+export const checkStorageQuota = (incomingBytes?: number) => storageManager.checkQuota(incomingBytes);
@@ -1,338 +1,647 @@
-import { updateJobProgress, completeJob } from './jobService';
+import {
+  InitializeModelOptions,
+  ModelInfo,
+  ModelLoadListener,
+  ModelLoadProgress,
+  ProcessImageResult,
+  ProcessingProgressCallback
+} from '../../lib/process';
+import {
+  WORKER_PROTOCOL_VERSION,
+  createRequestId,
+  JobCompleteReply,
+  ModelLoadProgressReply,
+  ProgressUpdateReply,
+  ReplyOf,
+  VideoCompleteReply,
+  WorkerProcessOptions,
+  WorkerReply,
+  WorkerReplyType,
+  WorkerRequestPayload,
+  WorkerStatusReply,
+  WorkerVideoOptions
+} from '../../lib/workerProtocol';
+import { VIDEO_MODEL_ID } from '../../lib/video';
+import { getModelSource } from '../../lib/modelSource';
+import { getPreferredModelOptions } from './modelPreferences';
+
+export type WorkerStatus = Omit<WorkerStatusReply, 'type' | 'requestId'>;
+
+export interface WorkerPoolStatus {
+  poolSize: number;
+  busyWorkers: number;
+  queuedJobs: number;
+  workers: Array<WorkerStatus & { workerId: number }>;
+}
 
-export interface WorkerMessage {
-  type: string;
-  data: any;
+export interface WorkerPoolOptions {
+  size?: number; // Defaults to a size derived from the device's cores and memory
+  model?: InitializeModelOptions; // Model every worker loads; defaults to the user's saved choice
 }
 
-export interface WorkerJobData {
-  jobId: string;
-  imageData: string; // base64 encoded image
-  fileName: string;
+interface PendingRequest {
+  resolve: (reply: WorkerReply) => void;
+  reject: (error: Error) => void;
 }
 
-export class WorkerManager {
-  private worker: Worker | null = null;
-  private isInitialized = false;
-  private initializationPromise: Promise<void> | null = null;
-  private messageHandlers: Map<string, (data: any) => void> = new Map();
+type TaskRequest = Extract<WorkerRequestPayload, { type: 'process_image' | 'process_video' }>;
+type TaskReply = JobCompleteReply | VideoCompleteReply;
 
-  constructor() {
-    this.initializeWorker();
-  }
+interface PoolTask {
+  request: TaskRequest;
+  onProgress?: ProcessingProgressCallback;
+  crashes: number; // Times a worker died while running this task
+  resolve: (reply: TaskReply) => void;
+  reject: (error: Error) => void;
+}
 
-  private async initializeWorker(): Promise<void> {
-    if (this.initializationPromise) {
-      return this.initializationPromise;
-    }
+type ReplyHandlers = {
+  [K in WorkerReplyType]: (reply: ReplyOf<K>) => void;
+};
 
-    this.initializationPromise = new Promise((resolve, reject) => {
-      try {
-        // Create worker
-        this.worker = new Worker('/worker.js');
+// A worker that died or ran out of memory; its task can safely be run again
+class WorkerCrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkerCrashError';
+  }
+}
 
-        // Set up message handling
-        this.worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
-          this.handleWorkerMessage(event.data);
-        };
+const OUT_OF_MEMORY_PATTERN = /out of memory|\boom\b|allocation failed|array buffer allocation|RangeError/i;
+const MAX_CRASHES_PER_TASK = 2;
+const MAX_POOL_SIZE = 4;
 
-        this.worker.onerror = (error) => {
-          console.error('Worker error:', error);
-          reject(error);
-        };
+// Each worker holds its own copy of the model (several hundred MB once loaded)
+const MEMORY_PER_WORKER_GB = 2;
 
-        // Set up message handlers
-        this.setupMessageHandlers(resolve, reject);
+const sameModel = (a: InitializeModelOptions, b: InitializeModelOptions) =>
+  a.modelId === b.modelId && a.device === b.device && a.dtype === b.dtype && a.numThreads === b.numThreads;
 
-        // Initialize the worker
-        this.sendMessage('init', {});
+// Frames of one image sequence share a temporal filter, and so a worker
+const sequenceIdOf = ({ request }: PoolTask): string | undefined =>
+  request.type === 'process_image' ? request.options.temporal?.sequenceId : undefined;
 
-      } catch (error) {
-        console.error('Failed to create worker:', error);
-        reject(error);
-      }
-    });
+/**
+ * Pick a pool size from the number of cores and, where exposed, device memory
+ */
+export function getDefaultPoolSize(): number {
+  if (typeof navigator === 'undefined') return 1;
 
-    return this.initializationPromise;
+  const cores = navigator.hardwareConcurrency || 2;
+  // Leave half the cores for the UI thread and ONNX's own wasm threads
+  let size = Math.floor(cores / 2);
+
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  if (deviceMemory) {
+    size = Math.min(size, Math.floor(deviceMemory / MEMORY_PER_WORKER_GB));
   }
 
-  private setupMessageHandlers(resolve: () => void, reject: (error: any) => void): void {
-    this.messageHandlers.set('worker_ready', (data) => {
-      this.isInitialized = true;
-      console.log('Worker initialized successfully');
-      resolve();
-    });
+  return Math.max(1, Math.min(MAX_POOL_SIZE, size));
+}
 
-    this.messageHandlers.set('progress_update', async (data) => {
-      const { jobId, progress, stage } = data;
-      if (jobId) {
-        try {
-          await updateJobProgress(jobId, progress, 'processing');
-        } catch (error) {
-          console.error('Failed to update job progress:', error);
-        }
-      }
-    });
+/**
+ * A single inference worker that keeps its model loaded between jobs
+ */
+class PooledWorker {
+  private worker: Worker;
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private readonly replyHandlers: ReplyHandlers;
+  readonly ready: Promise<void>;
+  isReady = false;
+  retired = false; // Running a model the pool no longer uses; shut down once its task is done
+  modelInfo: ModelInfo | null = null;
+  currentTask: PoolTask | null = null;
+
+  constructor(
+    readonly id: number,
+    readonly model: InitializeModelOptions,
+    onProgress: (worker: PooledWorker, reply: ProgressUpdateReply) => void,
+    onModelLoad: (worker: PooledWorker, reply: ModelLoadProgressReply) => void,
+    private onCrash: (worker: PooledWorker, error: Error) => void
+  ) {
+    this.replyHandlers = {
+      worker_ready: (reply) => {
+        this.isReady = true;
+        this.modelInfo = reply.modelInfo;
+        console.log(`Worker ${id} initialized with ${reply.modelInfo.currentModelId} (protocol v${reply.protocolVersion})`);
+        this.settle(reply.requestId, reply);
+      },
+      init_failed: (reply) => {
+        console.error(`Worker ${id} initialization failed:`, reply.error);
+        this.settle(reply.requestId, new Error(reply.error));
+      },
+      model_load_progress: (reply) => onModelLoad(this, reply),
+      progress_update: (reply) => onProgress(this, reply),
+      job_complete: (reply) => this.settle(reply.requestId, reply),
+      video_complete: (reply) => this.settle(reply.requestId, reply),
+      job_failed: (reply) => {
+        const error = OUT_OF_MEMORY_PATTERN.test(reply.error)
+          ? new WorkerCrashError(reply.error)
+          : new Error(reply.error);
+        this.settle(reply.requestId, error);
+      },
+      job_cancelled: (reply) => {
+        this.settle(reply.requestId, new DOMException('Job cancelled', 'AbortError'));
+      },
+      status: (reply) => this.settle(reply.requestId, reply)
+    };
 
-    this.messageHandlers.set('job_complete', async (data) => {
-      const { jobId, processedImageData, fileName } = data;
-      try {
-        // Convert base64 to File object
-        const response = await fetch(processedImageData);
-        const blob = await response.blob();
-        const processedFile = new File([blob], fileName, { type: 'image/png' });
-
-        await completeJob(jobId, processedFile);
-      } catch (error) {
-        console.error('Failed to complete job:', error);
-        await updateJobProgress(jobId, 0, 'failed', undefined, error instanceof Error ? error.message : 'Unknown error');
-      }
+    // Bundled by Vite as an ES module worker
+    this.worker = new Worker(new URL('../../lib/worker.ts', import.meta.url), {
+      type: 'module'
     });
 
-    this.messageHandlers.set('job_failed', async (data) => {
-      const { jobId, error } = data;
-      if (jobId) {
-        try {
-          await updateJobProgress(jobId, 0, 'failed', undefined, error);
-        } catch (updateError) {
-          console.error('Failed to update job failure:', updateError);
-        }
+    this.worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+      const reply = event.data;
+      const handler = this.replyHandlers[reply.type] as ((reply: WorkerReply) => void) | undefined;
+      if (handler) {
+        handler(reply);
       } else {
-        console.error('Worker initialization failed:', error);
-        reject(new Error(error));
+        console.warn('Unhandled worker message type:', reply.type);
       }
+    };
+
+    // Uncaught errors (including wasm OOM aborts) leave the worker in an unknown state
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.onCrash(this, new WorkerCrashError(event.message || 'Worker error occurred'));
+    };
+
+    this.ready = this.request({
+      type: 'init',
+      protocolVersion: WORKER_PROTOCOL_VERSION,
+      model,
+      modelSource: getModelSource()
+    }).then(() => undefined);
+  }
+
+  get isIdle(): boolean {
+    return this.isReady && !this.retired && !this.currentTask;
+  }
+
+  /**
+   * Send a request and resolve with the worker's final reply to it
+   */
+  request(payload: WorkerRequestPayload): Promise<WorkerReply> {
+    const requestId = createRequestId();
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(requestId, { resolve, reject });
+      this.worker.postMessage({ ...payload, requestId });
     });
   }
 
-  private handleWorkerMessage(message: WorkerMessage): void {
-    const { type, data } = message;
-    const handler = this.messageHandlers.get(type);
-    
-    if (handler) {
-      handler(data);
+  async run(task: PoolTask): Promise<TaskReply> {
+    // Files are passed by reference; the worker decodes the image or video itself
+    const reply = await this.request(task.request);
+    return reply as TaskReply;
+  }
+
+  cancel(jobId: string): void {
+    // The worker answers the job's own request with job_cancelled, not this one
+    this.worker.postMessage({ type: 'cancel_job', jobId, requestId: createRequestId() });
+  }
+
+  endSequence(sequenceId: string): void {
+    this.worker.postMessage({ type: 'end_sequence', sequenceId, requestId: createRequestId() });
+  }
+
+  private settle(requestId: string, outcome: WorkerReply | Error): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    this.pendingRequests.delete(requestId);
+    if (outcome instanceof Error) {
+      pending.reject(outcome);
     } else {
-      console.warn('Unhandled worker message type:', type);
+      pending.resolve(outcome);
     }
   }
 
-  private sendMessage(type: string, data: any): void {
-    if (!this.worker) {
-      throw new Error('Worker not initialized');
+  terminate(error: Error = new Error('Worker terminated')): void {
+    this.worker.terminate();
+    this.isReady = false;
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(error);
     }
+    this.pendingRequests.clear();
+  }
+}
 
-    this.worker.postMessage({ type, data });
+/**
+ * Pool of inference workers. Jobs are queued here and handed to whichever
+ * worker is idle; a worker that crashes is replaced and its job re-queued.
+ * Frames of a temporal sequence all run on the worker that took the first,
+ * which holds the sequence's filter.
+ */
+export class WorkerManager {
+  private workers: PooledWorker[] = [];
+  private queue: PoolTask[] = [];
+  private nextWorkerId = 1;
+  private poolSize: number;
+  private model: InitializeModelOptions;
+  private sequenceWorkers: Map<string, PooledWorker> = new Map();
+  private modelLoadListeners: Set<ModelLoadListener> = new Set();
+  private modelLoads: Map<PooledWorker, ModelLoadProgress> = new Map();
+  private lastModelLoad: ModelLoadProgress | null = null;
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.poolSize = options.size ?? getDefaultPoolSize();
+    this.model = options.model ?? {};
   }
 
   /**
-   * Process an image file in the background worker
+   * Load a model in the pool and resolve with what the first worker actually
+   * loaded (after any fallbacks). Workers running another model are replaced;
+   * busy ones finish their current job first.
    */
-  async processImage(jobId: string, file: File): Promise<void> {
-    await this.initializeWorker();
-
-    // Convert file to base64
-    const imageData = await this.fileToBase64(file);
-
-    const jobData: WorkerJobData = {
-      jobId,
-      imageData,
-      fileName: file.name
-    };
+  async loadModel(model: InitializeModelOptions): Promise<ModelInfo> {
+    if (!sameModel(model, this.model)) {
+      this.model = model;
+      [...this.workers].forEach(worker => this.retireWorker(worker));
+    }
 
-    this.sendMessage('process_image', jobData);
+    const worker = this.workers.find(w => !w.retired) ?? this.spawnWorker();
+    await worker.ready;
+    return worker.modelInfo!;
   }
 
   /**
-   * Cancel a job in the worker
+   * Subscribe to the workers' model loading progress. Returns a function that unsubscribes.
    */
-  async cancelJob(jobId: string): Promise<void> {
-    if (!this.worker) return;
+  onModelLoadProgress(listener: ModelLoadListener): () => void {
+    this.modelLoadListeners.add(listener);
+    return () => this.modelLoadListeners.delete(listener);
+  }
 
-    this.sendMessage('cancel_job', { jobId });
+  // The latest update, for listeners that subscribe mid-load
+  getModelLoadProgress(): ModelLoadProgress | null {
+    return this.lastModelLoad;
   }
 
   /**
-   * Get worker status
+   * Spawn workers up to the pool size, but only while there is queued work
+   * a new worker could take. Frames of a sequence that has started can only
+   * run on its worker, and one that hasn't needs just one.
    */
-  async getStatus(): Promise<any> {
-    if (!this.worker) return null;
+  private ensureWorkers(): void {
+    const sequences = new Set<string>();
+    const runnable = this.queue.filter(task => {
+      const sequenceId = sequenceIdOf(task);
+      if (!sequenceId) return true;
+      if (this.sequenceWorkers.has(sequenceId) || sequences.has(sequenceId)) return false;
+      sequences.add(sequenceId);
+      return true;
+    }).length;
 
-    return new Promise((resolve) => {
-      const handler = (data: any) => {
-        this.messageHandlers.delete('get_status');
-        resolve(data);
-      };
+    const idleOrStarting = this.workers.filter(w => !w.currentTask && !w.retired).length;
+    let needed = Math.min(runnable - idleOrStarting, this.poolSize - this.workers.length);
 
-      this.messageHandlers.set('get_status', handler);
-      this.sendMessage('get_status', {});
-    });
+    while (needed-- > 0) {
+      this.spawnWorker();
+    }
+  }
+
+  private spawnWorker(): PooledWorker {
+    const worker = new PooledWorker(
+      this.nextWorkerId++,
+      this.model,
+      (from, reply) => this.handleProgress(from, reply),
+      (from, reply) => this.handleModelLoad(from, reply),
+      (crashed, error) => this.recycleWorker(crashed, error)
+    );
+    this.workers.push(worker);
+
+    worker.ready
+      .then(() => {
+        // The pool may have shrunk while this worker was loading its model
+        this.trimPool();
+        this.schedule();
+      })
+      .catch((error) => {
+        this.removeWorker(worker);
+        // Without any working worker, nothing queued can ever run
+        if (this.workers.length === 0) {
+          this.failQueue(error instanceof Error ? error : new Error('Worker initialization failed'));
+        }
+      });
+
+    return worker;
+  }
+
+  private removeWorker(worker: PooledWorker): void {
+    this.workers = this.workers.filter(w => w !== worker);
+    for (const [sequenceId, pinned] of this.sequenceWorkers) {
+      if (pinned === worker) this.sequenceWorkers.delete(sequenceId);
+    }
+    if (this.modelLoads.delete(worker) && this.modelLoads.size > 0) {
+      this.reportModelLoad();
+    }
   }
 
   /**
-   * Check if worker is ready
+   * Shut down idle workers beyond the pool size. Workers still loading their
+   * model or running a job are left alone; they are trimmed once idle.
    */
-  isReady(): boolean {
-    return this.isInitialized;
+  private trimPool(): void {
+    const excess = this.workers.length - this.poolSize;
+    this.workers
+      .filter(w => w.isIdle)
+      .slice(0, Math.max(0, excess))
+      .forEach(worker => {
+        this.removeWorker(worker);
+        worker.terminate();
+      });
   }
 
   /**
-   * Terminate the worker
+   * Shut a worker down now if it is idle, or once its current job is done
    */
-  terminate(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
-      this.isInitialized = false;
-      this.initializationPromise = null;
+  private retireWorker(worker: PooledWorker): void {
+    worker.retired = true;
+    // Sequences pinned to it carry on elsewhere, with a fresh filter
+    for (const [sequenceId, pinned] of this.sequenceWorkers) {
+      if (pinned === worker) this.sequenceWorkers.delete(sequenceId);
+    }
+    if (!worker.currentTask) {
+      this.removeWorker(worker);
+      worker.terminate();
     }
   }
 
   /**
-   * Convert File to base64 string
+   * Replace a crashed worker, putting its in-flight job back at the front of the queue
    */
-  private fileToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        if (typeof reader.result === 'string') {
-          resolve(reader.result);
-        } else {
-          reject(new Error('Failed to convert file to base64'));
-        }
-      };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsDataURL(file);
-    });
-  }
-}
+  private recycleWorker(worker: PooledWorker, error: Error): void {
+    console.warn(`Recycling worker ${worker.id}:`, error.message);
+    const task = worker.currentTask;
+    const wasReady = worker.isReady;
+    worker.currentTask = null;
+    this.removeWorker(worker);
+    worker.terminate(error);
+
+    if (task) {
+      this.requeueOrFail(task, error);
+    }
 
-// Global worker manager instance
-export const workerManager = new WorkerManager();
+    // A worker that dies while loading the model would just die again;
+    // its rejected `ready` promise decides what happens to the queue
+    if (wasReady) {
+      this.ensureWorkers();
+    }
+    this.schedule();
+  }
 
-// Cleanup worker on page unload
-if (typeof window !== 'undefined') {
-  window.addEventListener('beforeunload', () => {
-    workerManager.terminate();
-  });
-}
+  private requeueOrFail(task: PoolTask, error: Error): void {
+    task.crashes++;
+    if (task.crashes > MAX_CRASHES_PER_TASK) {
+      task.reject(new Error(`Worker crashed ${task.crashes} times processing this image: ${error.message}`));
+    } else {
+      this.queue.unshift(task);
+    }
+  }
 
-/**
- * Enhanced job processor that uses Web Workers
- */
-export class BackgroundJobProcessor {
-  private processingQueue: Array<{
-    jobId: string;
-    file: File;
-    batchId: string;
-  }> = [];
-  private isProcessing = false;
-  private maxConcurrentJobs = 2; // Limit concurrent jobs to prevent overwhelming
+  private failQueue(error: Error): void {
+    const tasks = this.queue;
+    this.queue = [];
+    tasks.forEach(task => task.reject(error));
+  }
 
-  constructor(maxConcurrentJobs = 2) {
-    this.maxConcurrentJobs = maxConcurrentJobs;
+  // Frames of a sequence that has started wait for the worker holding its filter
+  private canRun(worker: PooledWorker, task: PoolTask): boolean {
+    const sequenceId = sequenceIdOf(task);
+    const pinned = sequenceId ? this.sequenceWorkers.get(sequenceId) : undefined;
+    return !pinned || pinned === worker;
   }
 
   /**
-   * Add a job to the background processing queue
+   * Hand queued tasks to idle workers
    */
-  async queueJob(jobId: string, file: File, batchId: string): Promise<void> {
-    this.processingQueue.push({ jobId, file, batchId });
-    
-    if (!this.isProcessing) {
-      this.processQueue();
+  private schedule(): void {
+    for (const worker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (!worker.isIdle) continue;
+
+      const index = this.queue.findIndex(task => this.canRun(worker, task));
+      if (index !== -1) {
+        const [task] = this.queue.splice(index, 1);
+        this.runOnWorker(worker, task);
+      }
     }
   }
 
-  /**
-   * Process the job queue using Web Workers
-   */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.processingQueue.length === 0) {
-      return;
+  private async runOnWorker(worker: PooledWorker, task: PoolTask): Promise<void> {
+    worker.currentTask = task;
+    const sequenceId = sequenceIdOf(task);
+    if (sequenceId && !this.sequenceWorkers.has(sequenceId)) {
+      this.sequenceWorkers.set(sequenceId, worker);
     }
 
-    this.isProcessing = true;
-
     try {
-      // Process jobs with limited concurrency
-      const activeJobs: Promise<void>[] = [];
-
-      while (this.processingQueue.length > 0 || activeJobs.length > 0) {
-        // Start new jobs up to the limit
-        while (activeJobs.length < this.maxConcurrentJobs && this.processingQueue.length > 0) {
-          const job = this.processingQueue.shift();
-          if (job) {
-            const jobPromise = this.processJobInWorker(job);
-            activeJobs.push(jobPromise);
-          }
-        }
+      const reply = await worker.run(task);
+      worker.currentTask = null;
+      task.resolve(reply);
+    } catch (error) {
+      if (worker.currentTask !== task) {
+        // Already handled by recycleWorker after the worker crashed
+        return;
+      }
 
-        // Wait for at least one job to complete
-        if (activeJobs.length > 0) {
-          await Promise.race(activeJobs);
-          // Remove completed jobs
-          for (let i = activeJobs.length - 1; i >= 0; i--) {
-            const job = activeJobs[i];
-            if (await this.isPromiseResolved(job)) {
-              activeJobs.splice(i, 1);
-            }
-          }
-        }
+      if (error instanceof WorkerCrashError) {
+        // The worker reported running out of memory; start over with a fresh one
+        this.recycleWorker(worker, error);
+        return;
       }
-    } catch (error) {
-      console.error('Error processing job queue:', error);
-    } finally {
-      this.isProcessing = false;
+      worker.currentTask = null;
+      task.reject(error instanceof Error ? error : new Error('Unknown error'));
+    }
+
+    if (worker.retired) {
+      this.removeWorker(worker);
+      worker.terminate();
+      this.ensureWorkers();
+    }
+    this.trimPool();
+    this.schedule();
+  }
+
+  private handleProgress(worker: PooledWorker, reply: ProgressUpdateReply): void {
+    const task = worker.currentTask;
+    if (task && task.request.jobId === reply.jobId) {
+      task.onProgress?.(reply.progress, reply.stage);
     }
   }
 
+  private handleModelLoad(worker: PooledWorker, { progress }: ModelLoadProgressReply): void {
+    this.modelLoads.set(worker, progress);
+    this.reportModelLoad();
+  }
+
   /**
-   * Process a single job using the Web Worker
+   * Report the slowest worker still loading, so progress only moves forward.
+   * Once none is, report a ready one, or the failure if none loaded.
    */
-  private async processJobInWorker(job: { jobId: string; file: File; batchId: string }): Promise<void> {
-    try {
-      await updateJobProgress(job.jobId, 0, 'processing');
-      await workerManager.processImage(job.jobId, job.file);
-    } catch (error) {
-      console.error('Error processing job in worker:', error);
-      await updateJobProgress(
-        job.jobId, 
-        0, 
-        'failed', 
-        undefined, 
-        error instanceof Error ? error.message : 'Unknown error'
-      );
+  private reportModelLoad(): void {
+    const loads = [...this.modelLoads.values()];
+    const loading = loads.filter(load => load.phase === 'downloading' || load.phase === 'initializing');
+
+    let progress: ModelLoadProgress;
+    if (loading.length > 0) {
+      progress = loading.reduce((slowest, load) => (load.progress < slowest.progress ? load : slowest));
+    } else {
+      progress = loads.find(load => load.phase === 'ready') ?? loads[loads.length - 1];
+      // The next load starts from scratch
+      this.modelLoads.clear();
     }
+
+    this.lastModelLoad = progress;
+    this.modelLoadListeners.forEach(listener => listener(progress));
   }
 
   /**
-   * Check if a promise is resolved (helper method)
+   * Remove the background of an image on the first idle worker.
+   * Rejects if processing failed, or with an AbortError if the job was
+   * cancelled through cancelJob or the given signal.
    */
-  private async isPromiseResolved(promise: Promise<any>): Promise<boolean> {
-    try {
-      await Promise.race([
-        promise,
-        new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), 0))
-      ]);
-      return true;
-    } catch {
-      return false;
+  async processImage(
+    jobId: string,
+    file: File,
+    options: WorkerProcessOptions = {},
+    onProgress?: ProcessingProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ProcessImageResult> {
+    const request: TaskRequest = { type: 'process_image', jobId, image: file, options };
+    const { cutout, mask, metadata } = await this.enqueue(request, onProgress, signal) as JobCompleteReply;
+    return { cutout, mask, metadata };
+  }
+
+  /**
+   * Remove the background of every frame of a video on the first idle worker.
+   * The pool's model must be one that can matte video, e.g. VIDEO_MODEL_ID.
+   * Rejects like processImage.
+   */
+  async processVideo(
+    jobId: string,
+    file: File,
+    options: WorkerVideoOptions = {},
+    onProgress?: ProcessingProgressCallback,
+    signal?: AbortSignal
+  ): Promise<File> {
+    const request: TaskRequest = { type: 'process_video', jobId, video: file, options };
+    const { video } = await this.enqueue(request, onProgress, signal) as VideoCompleteReply;
+    return video;
+  }
+
+  private enqueue(
+    request: TaskRequest,
+    onProgress?: ProcessingProgressCallback,
+    signal?: AbortSignal
+  ): Promise<TaskReply> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Job cancelled', 'AbortError'));
     }
+
+    const onAbort = () => this.cancelJob(request.jobId);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    return new Promise<TaskReply>((resolve, reject) => {
+      this.queue.push({ request, onProgress, crashes: 0, resolve, reject });
+      this.ensureWorkers();
+      this.schedule();
+    }).finally(() => signal?.removeEventListener('abort', onAbort));
   }
 
   /**
-   * Cancel all jobs in the queue
+   * Let the worker holding a sequence's temporal filter drop it
    */
-  clearQueue(): void {
-    this.processingQueue = [];
+  endSequence(sequenceId: string): void {
+    this.sequenceWorkers.get(sequenceId)?.endSequence(sequenceId);
+    this.sequenceWorkers.delete(sequenceId);
   }
 
   /**
-   * Get current queue length
+   * Cancel a job, whether it is still queued or already running on a worker
    */
-  getQueueLength(): number {
-    return this.processingQueue.length;
+  async cancelJob(jobId: string): Promise<void> {
+    const queued = this.queue.find(task => task.request.jobId === jobId);
+    if (queued) {
+      this.queue = this.queue.filter(task => task !== queued);
+      queued.reject(new DOMException('Job cancelled', 'AbortError'));
+      return;
+    }
+
+    this.workers.find(w => w.currentTask?.request.jobId === jobId)?.cancel(jobId);
+  }
+
+  /**
+   * Get the status of every worker in the pool
+   */
+  async getStatus(): Promise<WorkerPoolStatus> {
+    const workers = await Promise.all(
+      this.workers.filter(w => w.isReady).map(async (worker) => {
+        const reply = await worker.request({ type: 'get_status' }) as WorkerStatusReply;
+        return {
+          workerId: worker.id,
+          isInitialized: reply.isInitialized,
+          isProcessing: reply.isProcessing,
+          queueLength: reply.queueLength,
+          modelId: reply.modelId
+        };
+      })
+    );
+
+    return {
+      poolSize: this.poolSize,
+      busyWorkers: this.workers.filter(w => w.currentTask).length,
+      queuedJobs: this.queue.length,
+      workers
+    };
+  }
+
+  /**
+   * Change how many workers may run at once. Extra idle workers are shut down;
+   * busy or still loading ones once they are idle.
+   */
+  setPoolSize(size: number): void {
+    this.poolSize = Math.max(1, size);
+    this.trimPool();
+    this.ensureWorkers();
+    this.schedule();
+  }
+
+  getPoolSize(): number {
+    return this.poolSize;
+  }
+
+  /**
+   * Check if at least one worker has its model loaded
+   */
+  isReady(): boolean {
+    return this.workers.some(w => w.isReady && !w.retired);
+  }
+
+  /**
+   * Terminate every worker and drop queued jobs
+   */
+  terminate(): void {
+    const error = new Error('Worker pool terminated');
+    this.workers.forEach(worker => worker.terminate(error));
+    this.workers = [];
+    this.sequenceWorkers.clear();
+    this.modelLoads.clear();
+    this.failQueue(error);
   }
 }
 
-// Global background processor instance
-export const backgroundProcessor = new BackgroundJobProcessor();
+// Global worker pool instance, loading the user's saved model choice
+export const workerManager = new WorkerManager({ model: getPreferredModelOptions() });
+
+// Videos get a worker of their own, so the video model never replaces the image model
+export const videoWorkerManager = new WorkerManager({ size: 1, model: { modelId: VIDEO_MODEL_ID } });
+
+// Cleanup workers on page unload
+if (typeof window !== 'undefined') {
+  window.addEventListener('beforeunload', () => {
+    workerManager.terminate();
+    videoWorkerManager.terminate();
+  });
+}
@@ -1,16 +1,138 @@
+import type { ProcessVideoOptions } from '../../lib/video';
+import type { TemporalFilterOptions } from '../../lib/temporal';
+import type { TiledInferenceOptions } from '../../lib/tiling';
+import type { MattingOptions } from '../../lib/matting';
+
 // Image history types
 export interface ImageHistoryItem {
   id?: number;
   originalFileName: string;
-  originalImageData: string; // base64 encoded original image
-  processedImageData: string; // base64 encoded processed image
+  fileNameLower: string; // Indexed for case-insensitive prefix search
+  originalImage: Blob;
+  processedImage: Blob; // PNG with transparent background
+  mask?: Blob; // Grayscale PNG alpha mask; missing for images saved before masks were kept
   fileSize: number;
   timestamp: number;
+  lastViewedAt: number; // Drives least-recently-viewed eviction
+  thumbnailBytes: number; // Size of the entry's gallery thumbnail; 0 while it has none
   metadata: {
     width: number;
     height: number;
     type: string;
   };
+  editState?: EditState; // Settings of the last edit applied to processedImage
+}
+
+// EditModal settings, kept so edits survive export and import
+export interface EditState {
+  bgType: string;
+  bgColor: string;
+  effect: string;
+  blur: number;
+  brightness: number;
+  contrast: number;
+  cleanEdges?: boolean; // Missing in edits saved before the option existed
+}
+
+// Running totals for the history table, kept up to date on every write
+export interface HistoryStats {
+  id: 'totals';
+  totalImages: number;
+  totalSize: number; // Original uploads only, as shown in the gallery
+  storedBytes: number; // Every image and mask blob the entries hold
+  thumbnails: number; // Entries that have a thumbnail
+  thumbnailBytes: number;
+}
+
+// Small WebP preview of a history item's processed image, for the gallery grid
+export interface HistoryThumbnail {
+  historyId: number;
+  image: Blob;
+}
+
+// Job queue types
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// The settings that decide a job's result, stored with the job
+export interface JobOptions {
+  enableNotifications?: boolean;
+  batchName?: string;
+  video?: Pick<ProcessVideoOptions, 'background'>; // Only used for video files
+  temporal?: TemporalFilterOptions; // Mask smoothing for videos and numbered PNG sequences
+  highResolution?: TiledInferenceOptions; // Tiled refinement of large images; not used for videos
+  matting?: MattingOptions; // Edge refinement of image masks; not used for videos
+  estimateForeground?: boolean; // Colour spill removal at image edges; not used for videos
+}
+
+// One failed run of a processing job, kept so retries don't lose earlier errors
+export interface JobAttempt {
+  attempt: number; // 1-based
+  error: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface ProcessingJob {
+  id: string;
+  batchId: string;
+  fileName: string;
+  fileSize: number;
+  status: JobStatus;
+  progress: number; // 0-100
+  startTime: number; // Start of the current attempt
+  endTime?: number;
+  estimatedTimeRemaining?: number; // ms
+  error?: string;
+  originalFile: File; // Kept so the job can be retried or resumed
+  options?: JobOptions; // What the job was started with, so a retry or resume gives the same result
+  sequenceId?: string; // Shared by the frames of an image sequence, whose masks are smoothed together
+  processedFile?: File;
+  historyId?: number;
+  attempts: number;
+  attemptLog: JobAttempt[];
+}
+
+export interface JobBatch {
+  id: string;
+  name: string;
+  status: JobStatus;
+  progress: number; // Average progress of the batch's jobs
+  totalJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  startTime: number;
+  endTime?: number;
+  estimatedTimeRemaining?: number; // ms
+}
+
+export interface JobProgressUpdate {
+  jobId: string;
+  progress: number;
+  status: JobStatus;
+  estimatedTimeRemaining?: number;
+  error?: string;
+}
+
+export interface BatchProgressUpdate {
+  batchId: string;
+  progress: number;
+  status: JobStatus;
+  completedJobs: number;
+  failedJobs: number;
+  estimatedTimeRemaining?: number;
+}
+
+// A group of batches uploaded close together, persisted by BatchManager
+export interface BatchSession {
+  id: string;
+  name: string;
+  startTime: number;
+  endTime?: number;
+  batchIds: string[];
+  totalJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  isActive: boolean;
 }
 
 // Re-export existing types for convenience
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LOCAL_MODEL_PATH?: string;
+  readonly VITE_ALLOW_REMOTE_MODELS?: string;
+}
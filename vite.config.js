@@ -4,6 +4,9 @@ import react from "@vitejs/plugin-react";
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    format: 'es' // The inference worker is a module worker that shares chunks with the app
+  },
   build: {
     target: 'es2020', // Updated to ES2020 which supports BigInt
     sourcemap: true,  // Enable source maps for debugging